@@ -0,0 +1,627 @@
+/**
+ * Access Policy Module
+ *
+ * Restricts which schemas, tables and columns are exposed, on top of the privileges of the
+ * database role. Denied schemas and tables are left out of listings and rejected by every tool;
+ * hidden columns are left out of descriptions and results; masked columns are listed but their
+ * values are replaced in results.
+ *
+ * Queries are checked on their parsed AST: references to denied relations are rejected, and
+ * hidden or masked columns may only be read as plain columns of the outer select list, where
+ * their values are removed or masked after execution.
+ *
+ * @module access-policy
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseSync } from 'libpg-query';
+import type { ConnectionManager, DatabaseType } from './connection-manager.js';
+import { AstNode, getFunctionName, isNode, rejectionMessage, validate } from './query-validator.js';
+import { QueryResult } from './types.js';
+
+/**
+ * What happens to a column matched by a column rule
+ */
+export type ColumnAction = 'hide' | 'mask';
+
+/**
+ * Rules of an access policy file, globally or for one database
+ */
+export interface AccessPolicyRules {
+    denySchemas?: string[]; // Schema names, e.g. "audit" or "staging_*"
+    denyTables?: string[]; // "table" (any schema) or "schema.table"
+    hideColumns?: string[]; // "column" (any table), "table.column" or "schema.table.column"
+    maskColumns?: string[];
+}
+
+/**
+ * Shape of an ACCESS_POLICY_FILE. Top-level rules apply to every database;
+ * rules under `databases` are added for that database only.
+ */
+interface AccessPolicyFile extends AccessPolicyRules {
+    databases?: Record<string, AccessPolicyRules>;
+}
+
+interface TableRule {
+    pattern: string;
+    schema: RegExp | null; // null matches any schema
+    table: RegExp;
+}
+
+/**
+ * Column rule that applies to a set of tables
+ */
+export interface ColumnRule {
+    pattern: string;
+    action: ColumnAction;
+    schema: RegExp | null;
+    table: RegExp | null; // null matches any table
+    column: RegExp;
+}
+
+/**
+ * One side of a foreign key
+ */
+export interface ForeignKeySide {
+    schema: string;
+    table: string;
+    columns: string[];
+}
+
+interface CompiledRules {
+    schemas: RegExp[];
+    tables: TableRule[];
+    columns: ColumnRule[];
+}
+
+/**
+ * Relation referenced by a query (a RangeVar node)
+ */
+interface RelationReference {
+    schema: string | null; // null until an unqualified name is resolved through the search path
+    name: string;
+    alias: string | null;
+    columnAliases: boolean;
+    location: number;
+    node: AstNode;
+}
+
+/**
+ * Value shown in place of a masked column value
+ */
+export const MASKED_VALUE = '***';
+
+const RULE_KEYS = ['denySchemas', 'denyTables', 'hideColumns', 'maskColumns'] as const;
+
+/**
+ * Catalog views holding sampled column values, which would bypass column and table rules
+ */
+const STATISTICS_RELATIONS = ['pg_stats', 'pg_stats_ext', 'pg_stats_ext_exprs', 'pg_statistic', 'pg_statistic_ext_data'];
+
+/**
+ * Functions that run SQL given as a string, which the policy cannot inspect
+ */
+const DYNAMIC_SQL_FUNCTIONS = [
+    'query_to_xml',
+    'query_to_xmlschema',
+    'query_to_xml_and_xmlschema',
+    'cursor_to_xml',
+    'cursor_to_xmlschema',
+    'table_to_xml',
+    'table_to_xmlschema',
+    'table_to_xml_and_xmlschema',
+    'schema_to_xml',
+    'schema_to_xmlschema',
+    'schema_to_xml_and_xmlschema',
+    'database_to_xml',
+    'database_to_xmlschema',
+    'database_to_xml_and_xmlschema',
+    'ts_stat'
+];
+
+/**
+ * Compiles a `*` wildcard pattern into a case-insensitive regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+    const source = glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 'i');
+}
+
+function splitPattern(pattern: string, maxParts: number, expected: string): string[] {
+    const parts = pattern.split('.');
+
+    if (parts.length > maxParts || parts.some(part => part === '')) {
+        throw new Error(`Invalid access policy pattern "${pattern}": expected ${expected}`);
+    }
+
+    return parts;
+}
+
+function compileTableRule(pattern: string): TableRule {
+    const parts = splitPattern(pattern, 2, '"table" or "schema.table"');
+    const table = parts.pop()!;
+
+    return { pattern, schema: parts.length > 0 ? globToRegExp(parts[0]) : null, table: globToRegExp(table) };
+}
+
+function compileColumnRule(pattern: string, action: ColumnAction): ColumnRule {
+    const parts = splitPattern(pattern, 3, '"column", "table.column" or "schema.table.column"');
+    const column = parts.pop()!;
+    const table = parts.pop();
+    const schema = parts.pop();
+
+    return {
+        pattern,
+        action,
+        schema: schema ? globToRegExp(schema) : null,
+        table: table ? globToRegExp(table) : null,
+        column: globToRegExp(column)
+    };
+}
+
+function compileRules(rules: AccessPolicyRules[]): CompiledRules {
+    return {
+        schemas: rules.flatMap(rule => rule.denySchemas ?? []).map(globToRegExp),
+        tables: rules.flatMap(rule => rule.denyTables ?? []).map(compileTableRule),
+        // Hide rules come first so they win over mask rules for the same column
+        columns: [
+            ...rules.flatMap(rule => rule.hideColumns ?? []).map(pattern => compileColumnRule(pattern, 'hide')),
+            ...rules.flatMap(rule => rule.maskColumns ?? []).map(pattern => compileColumnRule(pattern, 'mask'))
+        ]
+    };
+}
+
+/**
+ * Returns the action of the first rule matching a column name
+ */
+function columnNameAction(rules: ColumnRule[], column: string): ColumnAction | null {
+    return rules.find(rule => rule.column.test(column))?.action ?? null;
+}
+
+function qualified(schema: string | null, name: string): string {
+    return schema ? `${schema}.${name}` : name;
+}
+
+function nodeLocation(node: AstNode): number | undefined {
+    return typeof node.location === 'number' && node.location >= 0 ? node.location : undefined;
+}
+
+function stringValue(node: unknown): string | null {
+    return isNode(node) && isNode(node.String) && typeof node.String.sval === 'string' ? node.String.sval : null;
+}
+
+/**
+ * Calls `visit` for every typed node (e.g. `{ RangeVar: {...} }`) in the AST
+ */
+function walk(value: unknown, visit: (type: string, body: AstNode) => void): void {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            walk(item, visit);
+        }
+
+        return;
+    }
+
+    if (!isNode(value)) {
+        return;
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+        if (/^[A-Z]/.test(key) && isNode(child)) {
+            visit(key, child);
+        }
+
+        walk(child, visit);
+    }
+}
+
+/**
+ * Schema, table and column rules loaded from ACCESS_POLICY_FILE. An empty policy allows everything.
+ */
+export class AccessPolicy {
+    private compiled: Map<DatabaseType, CompiledRules> = new Map();
+
+    constructor(private file: AccessPolicyFile = {}) {}
+
+    /**
+     * Checks whether any rule applies to a database
+     */
+    isActive(database: DatabaseType): boolean {
+        const rules = this.rulesFor(database);
+        return rules.schemas.length > 0 || rules.tables.length > 0 || rules.columns.length > 0;
+    }
+
+    isSchemaDenied(database: DatabaseType, schema: string): boolean {
+        return this.rulesFor(database).schemas.some(rule => rule.test(schema));
+    }
+
+    /**
+     * Checks whether a table is denied, by itself or through its schema
+     */
+    isTableDenied(database: DatabaseType, schema: string, table: string): boolean {
+        return this.isSchemaDenied(database, schema)
+            || this.rulesFor(database).tables.some(rule => (!rule.schema || rule.schema.test(schema)) && rule.table.test(table));
+    }
+
+    assertSchemaAllowed(database: DatabaseType, schema: string): void {
+        if (this.isSchemaDenied(database, schema)) {
+            throw new Error(`Access to schema "${schema}" is denied by the access policy`);
+        }
+    }
+
+    assertTableAllowed(database: DatabaseType, schema: string, table: string): void {
+        this.assertSchemaAllowed(database, schema);
+
+        if (this.isTableDenied(database, schema, table)) {
+            throw new Error(`Access to table "${schema}.${table}" is denied by the access policy`);
+        }
+    }
+
+    /**
+     * Returns whether a column is hidden or masked, or null when no rule matches it
+     */
+    columnAction(database: DatabaseType, schema: string, table: string, column: string): ColumnAction | null {
+        return columnNameAction(this.tableColumnRules(database, schema, table), column);
+    }
+
+    /**
+     * Checks whether a foreign key must be left out because it touches a denied table or a hidden column
+     */
+    isForeignKeyHidden(database: DatabaseType, from: ForeignKeySide, to: ForeignKeySide): boolean {
+        return [from, to].some(side => this.isTableDenied(database, side.schema, side.table)
+            || side.columns.some(column => this.columnAction(database, side.schema, side.table, column) === 'hide'));
+    }
+
+    /**
+     * Throws when a column is hidden or masked, for tools that compute over column values
+     */
+    assertColumnReadable(database: DatabaseType, schema: string, table: string, column: string): void {
+        const action = this.columnAction(database, schema, table, column);
+
+        if (action) {
+            throw new Error(`Column "${column}" of "${schema}.${table}" is ${action === 'hide' ? 'hidden' : 'masked'} by the access policy`);
+        }
+    }
+
+    /**
+     * Checks a validated query against the policy. Returns the column rules that apply to its
+     * tables; pass them to maskResult with the query's result.
+     */
+    async checkQuery(connectionManager: ConnectionManager, database: DatabaseType, query: string): Promise<ColumnRule[]> {
+        if (!this.isActive(database)) {
+            return [];
+        }
+
+        // Invalid queries are reported by the validator when they are executed
+        if (!validate(query).valid) {
+            return [];
+        }
+
+        const statement = parseSync(query).stmts![0].stmt as AstNode;
+        const reject = (message: string, location?: number): never => {
+            throw new Error(rejectionMessage(query, message, location));
+        };
+
+        const relations: RelationReference[] = [];
+
+        walk(statement, (type, body) => {
+            if (type === 'RangeVar') {
+                const alias = isNode(body.alias) ? body.alias : null;
+
+                relations.push({
+                    schema: typeof body.schemaname === 'string' ? body.schemaname : null,
+                    name: body.relname as string,
+                    alias: alias && typeof alias.aliasname === 'string' ? alias.aliasname : null,
+                    columnAliases: Array.isArray(alias?.colnames) && alias.colnames.length > 0,
+                    location: nodeLocation(body) ?? -1,
+                    node: body
+                });
+            } else if (type === 'FuncCall' && DYNAMIC_SQL_FUNCTIONS.includes(getFunctionName(body))) {
+                reject(
+                    `Function '${getFunctionName(body)}' runs SQL from a string and is not allowed while an access policy is in effect.`,
+                    nodeLocation(body)
+                );
+            }
+        });
+
+        await this.resolveSchemas(connectionManager, database, relations);
+
+        for (const relation of relations) {
+            if (relation.schema && this.isSchemaDenied(database, relation.schema)) {
+                reject(`Schema "${relation.schema}" is denied by the access policy.`, relation.location);
+            }
+
+            // Unresolved names (CTEs or missing tables) are matched against rules for any schema
+            const denied = relation.schema
+                ? this.isTableDenied(database, relation.schema, relation.name)
+                : this.rulesFor(database).tables.some(rule => rule.table.test(relation.name));
+
+            if (denied) {
+                reject(`Table "${qualified(relation.schema, relation.name)}" is denied by the access policy.`, relation.location);
+            }
+
+            if (relation.schema === 'pg_catalog' && STATISTICS_RELATIONS.includes(relation.name)) {
+                reject(
+                    `"pg_catalog.${relation.name}" exposes sampled column values and is not available while an access policy is in effect.`,
+                    relation.location
+                );
+            }
+        }
+
+        const protectedRelations = relations.filter(relation =>
+            this.tableColumnRules(database, relation.schema, relation.name).length > 0);
+
+        if (protectedRelations.length === 0) {
+            return [];
+        }
+
+        const rules = Array.from(new Set(protectedRelations.flatMap(relation =>
+            this.tableColumnRules(database, relation.schema, relation.name))));
+
+        this.checkColumnReferences(statement, rules, protectedRelations, reject);
+
+        return rules;
+    }
+
+    /**
+     * Removes hidden columns from a result and masks the values of masked columns, by output column name
+     */
+    maskResult(result: QueryResult, rules: ColumnRule[]): QueryResult {
+        if (rules.length === 0) {
+            return result;
+        }
+
+        const actions = new Map(result.fields.map(field => [field.name, columnNameAction(rules, field.name)]));
+
+        if (Array.from(actions.values()).every(action => action === null)) {
+            return result;
+        }
+
+        const masked: QueryResult = {
+            ...result,
+            fields: result.fields.filter(field => actions.get(field.name) !== 'hide'),
+            rows: result.rows.map(row => {
+                const maskedRow: Record<string, unknown> = {};
+
+                for (const [key, value] of Object.entries(row)) {
+                    const action = actions.get(key);
+
+                    if (action !== 'hide') {
+                        maskedRow[key] = action === 'mask' && value !== null ? MASKED_VALUE : value;
+                    }
+                }
+
+                return maskedRow;
+            })
+        };
+
+        // Values of policy columns are gone, so the PII scanner's note on them is too
+        if (result.piiMasked) {
+            const columns = result.piiMasked.columns.filter(entry => !actions.get(entry.column));
+
+            if (columns.length > 0) {
+                masked.piiMasked = { ...result.piiMasked, columns };
+            } else {
+                delete masked.piiMasked;
+            }
+        }
+
+        return masked;
+    }
+
+    private rulesFor(database: DatabaseType): CompiledRules {
+        let rules = this.compiled.get(database);
+
+        if (!rules) {
+            const own = this.file.databases?.[database];
+            rules = compileRules(own ? [this.file, own] : [this.file]);
+            this.compiled.set(database, rules);
+        }
+
+        return rules;
+    }
+
+    /**
+     * Column rules that can match columns of a table; an unknown schema matches rules for any schema
+     */
+    private tableColumnRules(database: DatabaseType, schema: string | null, table: string): ColumnRule[] {
+        return this.rulesFor(database).columns.filter(rule =>
+            (!rule.schema || !schema || rule.schema.test(schema)) && (!rule.table || rule.table.test(table)));
+    }
+
+    /**
+     * Resolves the schemas of unqualified relations through the search path
+     */
+    private async resolveSchemas(
+        connectionManager: ConnectionManager,
+        database: DatabaseType,
+        relations: RelationReference[]
+    ): Promise<void> {
+        const names = Array.from(new Set(relations.filter(relation => !relation.schema).map(relation => relation.name)));
+
+        if (names.length === 0) {
+            return;
+        }
+
+        const query = `
+      SELECT
+        r.name,
+        n.nspname AS schema_name
+      FROM
+        unnest($1::text[]) AS r(name)
+      JOIN
+        pg_class c ON c.oid = to_regclass(quote_ident(r.name))
+      JOIN
+        pg_namespace n ON n.oid = c.relnamespace
+    `;
+
+        const result = await connectionManager.executeQuery(database, query, [names]);
+        const schemas = new Map(result.rows.map(row => [row.name as string, row.schema_name as string]));
+
+        for (const relation of relations) {
+            relation.schema ??= schemas.get(relation.name) ?? null;
+        }
+    }
+
+    /**
+     * Rejects every use of a hidden or masked column other than a plain column of the outer select
+     * list, and every way of reading such columns without naming them (nested `*`, whole-row
+     * references, column alias lists and NATURAL joins)
+     */
+    private checkColumnReferences(
+        statement: AstNode,
+        rules: ColumnRule[],
+        relations: RelationReference[],
+        reject: (message: string, location?: number) => never
+    ): void {
+        const protectedNames = new Set(relations.map(relation => relation.alias ?? relation.name));
+        const outputColumns = new Set<AstNode>();
+        const select = statement.SelectStmt as AstNode;
+
+        // Only a plain SELECT keeps column names in its output; set operations take the names of their first branch
+        if (select.op === 'SETOP_NONE' && Array.isArray(select.targetList)) {
+            for (const target of select.targetList) {
+                const resTarget = isNode(target) && isNode(target.ResTarget) ? target.ResTarget : null;
+                const columnRef = resTarget && isNode(resTarget.val) && isNode(resTarget.val.ColumnRef)
+                    ? resTarget.val.ColumnRef
+                    : null;
+
+                if (!columnRef) {
+                    continue;
+                }
+
+                const fields = columnRef.fields as unknown[];
+                const name = stringValue(fields[fields.length - 1]);
+                const alias = typeof resTarget!.name === 'string' ? resTarget!.name : null;
+
+                const wholeRow = fields.length === 1 && name !== null && protectedNames.has(name);
+
+                if (name === null || (!wholeRow && columnNameAction(rules, name) !== 'hide' && (alias === null || alias === name))) {
+                    outputColumns.add(columnRef);
+                }
+            }
+        }
+
+        walk(statement, (type, body) => {
+            if (type === 'ColumnRef' && !outputColumns.has(body)) {
+                const fields = body.fields as unknown[];
+                const name = stringValue(fields[fields.length - 1]);
+
+                if (name === null) {
+                    reject(
+                        `"*" would include hidden or masked columns and is only allowed in the outer select list.`,
+                        nodeLocation(body)
+                    );
+                }
+
+                const action = columnNameAction(rules, name!);
+
+                if (action === 'hide') {
+                    reject(`Column "${name}" is hidden by the access policy.`, nodeLocation(body));
+                }
+
+                if (action === 'mask') {
+                    reject(
+                        `Column "${name}" is masked by the access policy. Masked columns can only be selected as plain ` +
+                        'columns of the outer select list, without aliases, expressions, filters, joins or sorting.',
+                        nodeLocation(body)
+                    );
+                }
+
+                if (fields.length === 1 && protectedNames.has(name!)) {
+                    reject(
+                        `Whole-row reference "${name}" would include hidden or masked columns. Select the columns you need instead.`,
+                        nodeLocation(body)
+                    );
+                }
+            } else if (type === 'RangeVar') {
+                const relation = relations.find(entry => entry.node === body);
+
+                if (relation?.columnAliases) {
+                    reject(
+                        `Column aliases on "${qualified(relation.schema, relation.name)}" are not allowed because it has hidden or masked columns.`,
+                        relation.location
+                    );
+                }
+            } else if (type === 'JoinExpr') {
+                if (body.isNatural) {
+                    reject('NATURAL joins are not allowed on tables with hidden or masked columns. Use JOIN ... ON instead.');
+                }
+
+                for (const column of Array.isArray(body.usingClause) ? body.usingClause : []) {
+                    const name = stringValue(column);
+                    const action = name === null ? null : columnNameAction(rules, name);
+
+                    if (action) {
+                        reject(`Column "${name}" is ${action === 'hide' ? 'hidden' : 'masked'} by the access policy and cannot be used in JOIN ... USING.`);
+                    }
+                }
+            }
+        });
+    }
+}
+
+function assertStringArray(value: unknown, key: string, path: string): void {
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+        throw new Error(`Access policy file ${path}: "${key}" must be an array of strings`);
+    }
+}
+
+function assertRules(rules: unknown, path: string, scope: string): void {
+    if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+        throw new Error(`Access policy file ${path}: ${scope} must be an object`);
+    }
+
+    for (const key of RULE_KEYS) {
+        assertStringArray((rules as Record<string, unknown>)[key], key, path);
+    }
+}
+
+/**
+ * Loads the access policy from ACCESS_POLICY_FILE, or an empty policy when it is not set
+ *
+ * @example
+ * {
+ *   "denySchemas": ["audit"],
+ *   "denyTables": ["public.api_keys"],
+ *   "hideColumns": ["*_token", "users.password_hash"],
+ *   "maskColumns": ["users.email", "payments.card_last4"],
+ *   "databases": {
+ *     "billing": { "denyTables": ["invoices_archive"] }
+ *   }
+ * }
+ */
+export function loadAccessPolicy(databaseNames: DatabaseType[]): AccessPolicy {
+    const path = process.env.ACCESS_POLICY_FILE;
+
+    if (!path) {
+        return new AccessPolicy();
+    }
+
+    let parsed: AccessPolicyFile;
+
+    try {
+        parsed = JSON.parse(readFileSync(path, 'utf8')) as AccessPolicyFile;
+    } catch (error) {
+        throw new Error(`Failed to read access policy file ${path}: ${(error as Error).message}`);
+    }
+
+    assertRules(parsed, path, 'the policy');
+
+    for (const [name, rules] of Object.entries(parsed.databases ?? {})) {
+        if (!databaseNames.includes(name)) {
+            throw new Error(`Access policy file ${path} has rules for unknown database "${name}"`);
+        }
+
+        assertRules(rules, path, `"databases.${name}"`);
+    }
+
+    const policy = new AccessPolicy(parsed);
+
+    // Compile every pattern now so mistakes are reported at startup
+    for (const database of databaseNames) {
+        policy.isActive(database);
+    }
+
+    return policy;
+}
@@ -0,0 +1,171 @@
+/**
+ * Audit Log Module
+ *
+ * Records every tool call and the SQL it sent as JSON Lines in a size-rotated file.
+ * Enabled with AUDIT_LOG_FILE. Arguments, SQL, params and errors are redacted with
+ * sanitizeMessage before they are written.
+ *
+ * @module audit-log
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFileSync, existsSync, renameSync, statSync } from 'node:fs';
+import { parsePositiveIntEnv, sanitizeMessage } from './connection-manager.js';
+import { AuditEntry, AuditStatement } from './types.js';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+const DEFAULT_MAX_FILES = 5;
+
+/**
+ * Redacts sensitive values in strings, including those nested in arrays and objects
+ */
+function redact(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return sanitizeMessage(value);
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(redact);
+    }
+
+    if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redact(item)]));
+    }
+
+    return value;
+}
+
+function errorMessage(error: unknown): string {
+    return sanitizeMessage(error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Writes one JSON line per tool call. When the file would grow past `maxBytes` it is renamed
+ * to `<file>.1`, older files shift up, and files beyond `<file>.<maxFiles>` are dropped.
+ */
+export class AuditLog {
+    // Statements of the tool call the current async context belongs to
+    private context = new AsyncLocalStorage<AuditStatement[]>();
+    private size: number;
+
+    constructor(
+        private path: string,
+        private maxBytes: number = DEFAULT_MAX_BYTES,
+        private maxFiles: number = DEFAULT_MAX_FILES
+    ) {
+        // Fails at startup rather than on the first call when the file cannot be written
+        appendFileSync(path, '', { mode: 0o600 });
+        this.size = statSync(path).size;
+    }
+
+    /**
+     * Runs a tool call and writes its entry once it settles, whether it succeeded or failed
+     */
+    async record<T>(tool: string, args: Record<string, unknown> | undefined, call: () => Promise<T>): Promise<T> {
+        const statements: AuditStatement[] = [];
+        const startedAt = Date.now();
+        let failure: unknown;
+
+        try {
+            return await this.context.run(statements, call);
+        } catch (error) {
+            failure = error;
+            throw error;
+        } finally {
+            const requested = typeof args?.database === 'string' ? [args.database] : [];
+            const databases = statements.length > 0
+                ? Array.from(new Set(statements.map(statement => statement.database)))
+                : requested;
+
+            this.write({
+                timestamp: new Date(startedAt).toISOString(),
+                tool,
+                arguments: redact(args ?? {}) as Record<string, unknown>,
+                databases,
+                durationMs: Date.now() - startedAt,
+                statements,
+                ...(failure !== undefined ? { error: errorMessage(failure) } : {})
+            });
+        }
+    }
+
+    /**
+     * Adds a statement to the entry of the tool call in progress. Statements sent outside
+     * a tool call, such as startup checks and schema refreshes, are not recorded.
+     */
+    recordStatement(
+        database: string,
+        sql: string,
+        params: unknown[],
+        startedAt: number,
+        outcome: { rowCount?: number; truncated?: boolean; error?: unknown }
+    ): void {
+        const statements = this.context.getStore();
+
+        if (!statements) {
+            return;
+        }
+
+        statements.push({
+            database,
+            sql: sanitizeMessage(sql),
+            ...(params.length > 0 ? { params: redact(params) as unknown[] } : {}),
+            durationMs: Date.now() - startedAt,
+            ...(outcome.rowCount !== undefined ? { rowCount: outcome.rowCount } : {}),
+            ...(outcome.truncated !== undefined ? { truncated: outcome.truncated } : {}),
+            ...(outcome.error !== undefined ? { error: errorMessage(outcome.error) } : {})
+        });
+    }
+
+    private write(entry: AuditEntry): void {
+        const line = `${JSON.stringify(entry)}\n`;
+        const bytes = Buffer.byteLength(line);
+
+        try {
+            if (this.size > 0 && this.size + bytes > this.maxBytes) {
+                this.rotate();
+            }
+
+            appendFileSync(this.path, line, { mode: 0o600 });
+            this.size += bytes;
+        } catch (error) {
+            // A failed write must not fail the tool call; stderr keeps it visible to the operator
+            console.error(`Failed to write audit log ${this.path}: ${(error as Error).message}`);
+        }
+    }
+
+    private rotate(): void {
+        for (let index = this.maxFiles - 1; index >= 1; index--) {
+            const from = `${this.path}.${index}`;
+
+            if (existsSync(from)) {
+                renameSync(from, `${this.path}.${index + 1}`);
+            }
+        }
+
+        renameSync(this.path, `${this.path}.1`);
+        this.size = 0;
+    }
+}
+
+/**
+ * Creates the audit log configured by AUDIT_LOG_FILE, AUDIT_LOG_MAX_BYTES and
+ * AUDIT_LOG_MAX_FILES, or null when AUDIT_LOG_FILE is unset
+ */
+export function loadAuditLog(): AuditLog | null {
+    const path = process.env.AUDIT_LOG_FILE;
+
+    if (!path) {
+        return null;
+    }
+
+    const maxBytes = parsePositiveIntEnv('AUDIT_LOG_MAX_BYTES', DEFAULT_MAX_BYTES);
+    const maxFiles = parsePositiveIntEnv('AUDIT_LOG_MAX_FILES', DEFAULT_MAX_FILES);
+
+    try {
+        return new AuditLog(path, maxBytes, maxFiles);
+    } catch (error) {
+        throw new Error(`Audit log file ${path} cannot be written: ${(error as Error).message}`);
+    }
+}
@@ -0,0 +1,253 @@
+/**
+ * Cost Guard Module
+ *
+ * Checks the planner's estimates for a query before it runs and rejects queries that
+ * would be expensive: a high total cost, too many rows flowing through a plan step, or
+ * a sequential scan that reads most of a large table. Enabled by setting any of the
+ * COST_GUARD_* thresholds.
+ *
+ * @module cost-guard
+ */
+
+import type { PoolClient } from 'pg';
+import { parsePositiveIntEnv } from './connection-manager.js';
+
+/**
+ * Rejection thresholds; unset thresholds are not checked
+ */
+export interface CostThresholds {
+    maxCost?: number; // Estimated total cost of the plan, in planner cost units
+    maxRows?: number; // Estimated rows produced by any single plan node
+    maxSeqScanBytes?: number; // Size of a table read by a sequential scan
+}
+
+/**
+ * Node of a `EXPLAIN (FORMAT JSON, VERBOSE)` plan, with the fields the guard reads
+ */
+export interface PlanNode {
+    'Node Type': string;
+    'Parent Relationship'?: string;
+    'Relation Name'?: string;
+    Schema?: string;
+    'Total Cost': number;
+    'Plan Rows': number;
+    Plans?: PlanNode[];
+}
+
+/**
+ * Size and leading index columns of a table, for sequential scan checks and suggestions
+ */
+interface TableSize {
+    sizeBytes: number;
+    size: string; // pg_size_pretty of sizeBytes
+    indexedColumns: string[];
+}
+
+/**
+ * Sequential scan found in a plan, with the share of the table it is expected to read
+ */
+interface SeqScan {
+    schema: string;
+    table: string;
+    fraction: number;
+}
+
+/**
+ * Schemas whose tables are never treated as large; catalog queries explore the schema
+ */
+const CATALOG_SCHEMAS = ['pg_catalog', 'information_schema', 'pg_toast'];
+
+/**
+ * Nodes that pass their input through row by row, so a LIMIT above them stops their input early
+ */
+const STREAMING_NODES = ['Result', 'Subquery Scan', 'Append', 'Gather', 'Gather Merge', 'ProjectSet', 'Unique'];
+
+/**
+ * Joins stream their outer input; the inner side is hashed, materialized or rescanned in full
+ */
+const JOIN_NODES = ['Nested Loop', 'Hash Join', 'Merge Join'];
+
+const PLAN_HINT = 'Run explain_query to see the plan.';
+
+/**
+ * Heap size and leading index columns of the given tables ($1 schemas, $2 names)
+ */
+const TABLE_SIZES_QUERY = `
+    SELECT
+      n.nspname AS schema,
+      c.relname AS name,
+      pg_relation_size(c.oid) AS size_bytes,
+      pg_size_pretty(pg_relation_size(c.oid)) AS size,
+      ARRAY(
+        SELECT DISTINCT a.attname::text
+        FROM pg_index i
+        JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = i.indkey[0]
+        WHERE i.indrelid = c.oid
+        ORDER BY 1
+      ) AS indexed_columns
+    FROM unnest($1::text[], $2::text[]) AS t(schema, name)
+    JOIN pg_namespace n ON n.nspname = t.schema
+    JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = t.name
+`;
+
+/**
+ * Returns the share of a child's rows that is actually read: a LIMIT stops early, and
+ * streaming nodes keep the share of their parent. Anything else reads its input in full.
+ */
+function childFraction(node: PlanNode, child: PlanNode, fraction: number): number {
+    if (node['Node Type'] === 'Limit') {
+        return fraction * Math.min(1, node['Plan Rows'] / Math.max(1, child['Plan Rows']));
+    }
+
+    if (STREAMING_NODES.includes(node['Node Type'])) {
+        return fraction;
+    }
+
+    if (JOIN_NODES.includes(node['Node Type']) && child['Parent Relationship'] === 'Outer') {
+        return fraction;
+    }
+
+    return 1;
+}
+
+/**
+ * Visits every node with the share of its output the query is expected to consume
+ */
+function walk(node: PlanNode, fraction: number, visit: (node: PlanNode, fraction: number) => void): void {
+    visit(node, fraction);
+
+    for (const child of node.Plans ?? []) {
+        walk(child, childFraction(node, child, fraction), visit);
+    }
+}
+
+function describeNode(node: PlanNode): string {
+    return node['Relation Name']
+        ? `${node['Node Type']} on "${node.Schema ? `${node.Schema}.` : ''}${node['Relation Name']}"`
+        : node['Node Type'];
+}
+
+function formatNumber(value: number): string {
+    return Math.round(value).toLocaleString('en-US');
+}
+
+/**
+ * Rejects queries whose plan estimates exceed the configured thresholds
+ */
+export class CostGuard {
+    constructor(private thresholds: CostThresholds) {}
+
+    /**
+     * Returns why the plan is too expensive to run, or null if it is within every threshold.
+     * Sizes of sequentially scanned tables are looked up on `client`.
+     */
+    async assess(client: PoolClient, plan: PlanNode): Promise<string | null> {
+        const { maxCost, maxRows } = this.thresholds;
+
+        if (maxCost !== undefined && plan['Total Cost'] > maxCost) {
+            return `Query rejected by the cost guard: estimated cost ${formatNumber(plan['Total Cost'])} exceeds the limit of ${formatNumber(maxCost)}. ` +
+                `Add WHERE filters on indexed columns or a LIMIT, and avoid sorting, grouping or joining whole large tables. ${PLAN_HINT}`;
+        }
+
+        if (maxRows !== undefined) {
+            const estimates: Array<{ node: PlanNode; rows: number }> = [];
+
+            walk(plan, 1, (node, fraction) => {
+                estimates.push({ node, rows: node['Plan Rows'] * fraction });
+            });
+
+            const { node, rows } = estimates.reduce((largest, estimate) => estimate.rows > largest.rows ? estimate : largest);
+
+            if (rows > maxRows) {
+                return `Query rejected by the cost guard: ${describeNode(node)} is estimated to process ${formatNumber(rows)} rows, above the limit of ${formatNumber(maxRows)}. ` +
+                    `Add WHERE filters that narrow the rows, or a LIMIT. ${PLAN_HINT}`;
+            }
+        }
+
+        const { maxSeqScanBytes } = this.thresholds;
+
+        if (maxSeqScanBytes === undefined) {
+            return null;
+        }
+
+        const scans = this.seqScans(plan);
+        const sizes = await this.loadTableSizes(client, scans);
+
+        for (const scan of scans) {
+            const size = sizes.get(`${scan.schema}.${scan.table}`);
+
+            if (!size || size.sizeBytes * scan.fraction <= maxSeqScanBytes) {
+                continue;
+            }
+
+            const filters = size.indexedColumns.length > 0
+                ? `Filter on an indexed column (${size.indexedColumns.join(', ')})`
+                : 'The table has no indexes; filter on a selective column';
+
+            const share = scan.fraction < 1 ? `about ${Math.ceil(scan.fraction * 100)}% of ` : '';
+
+            return `Query rejected by the cost guard: a sequential scan would read ${share}"${scan.schema}.${scan.table}" (${size.size}), ` +
+                `more than the ${formatNumber(maxSeqScanBytes)} bytes allowed. ${filters}, or add a LIMIT so only part of the table is read. ${PLAN_HINT}`;
+        }
+
+        return null;
+    }
+
+    private async loadTableSizes(client: PoolClient, scans: SeqScan[]): Promise<Map<string, TableSize>> {
+        const sizes = new Map<string, TableSize>();
+
+        if (scans.length === 0) {
+            return sizes;
+        }
+
+        const result = await client.query(TABLE_SIZES_QUERY, [scans.map(scan => scan.schema), scans.map(scan => scan.table)]);
+
+        for (const row of result.rows) {
+            sizes.set(`${row.schema}.${row.name}`, {
+                sizeBytes: parseInt(row.size_bytes as string, 10),
+                size: row.size as string,
+                indexedColumns: row.indexed_columns as string[]
+            });
+        }
+
+        return sizes;
+    }
+
+    private seqScans(plan: PlanNode): SeqScan[] {
+        const scans: SeqScan[] = [];
+
+        walk(plan, 1, (node, fraction) => {
+            const schema = node.Schema;
+            const table = node['Relation Name'];
+
+            if (node['Node Type'] === 'Seq Scan' && schema && table && !CATALOG_SCHEMAS.includes(schema)) {
+                scans.push({ schema, table, fraction });
+            }
+        });
+
+        return scans;
+    }
+}
+
+function parseThreshold(name: string): number | undefined {
+    const value = parsePositiveIntEnv(name, 0);
+    return value === 0 ? undefined : value;
+}
+
+/**
+ * Creates the cost guard configured by COST_GUARD_MAX_COST, COST_GUARD_MAX_ROWS and
+ * COST_GUARD_MAX_SEQ_SCAN_BYTES, or null when none of them is set
+ */
+export function loadCostGuard(): CostGuard | null {
+    const thresholds: CostThresholds = {
+        maxCost: parseThreshold('COST_GUARD_MAX_COST'),
+        maxRows: parseThreshold('COST_GUARD_MAX_ROWS'),
+        maxSeqScanBytes: parseThreshold('COST_GUARD_MAX_SEQ_SCAN_BYTES')
+    };
+
+    if (Object.values(thresholds).every(value => value === undefined)) {
+        return null;
+    }
+
+    return new CostGuard(thresholds);
+}
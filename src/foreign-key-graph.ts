@@ -0,0 +1,274 @@
+/**
+ * Foreign Key Graph Module
+ *
+ * Loads the foreign keys of a database (optionally limited to some schemas)
+ * into a graph of tables. Edges can be walked in both directions, since a
+ * join works either way. Used to find join paths and relationship neighborhoods.
+ *
+ * @module foreign-key-graph
+ */
+
+import { ConnectionManager, DatabaseType } from './connection-manager.js';
+import { ColumnPair, LIMITS } from './types.js';
+import { constraintColumnsSql, INDEX_KEY_SQL, toColumnPairs } from './tools/show-relations.js';
+
+/**
+ * Foreign key from a referencing table to a referenced table
+ */
+export interface ForeignKeyEdge {
+    name: string;
+    from: string; // Referencing table, schema-qualified
+    to: string; // Referenced table, schema-qualified
+    columns: ColumnPair[];
+    uniqueColumns: boolean; // The referencing columns contain a unique key, so the relation is one-to-one
+}
+
+/**
+ * Edge as seen from one of its tables
+ */
+export interface GraphStep {
+    edge: ForeignKeyEdge;
+    direction: 'outgoing' | 'incoming'; // outgoing: the current table holds the foreign key
+    table: string; // Table at the other end
+}
+
+export function qualifiedName(schema: string, table: string): string {
+    return `${schema}.${table}`;
+}
+
+export function splitQualifiedName(name: string): { schema: string; table: string } {
+    const dot = name.indexOf('.');
+    return { schema: name.slice(0, dot), table: name.slice(dot + 1) };
+}
+
+/**
+ * Cardinality of a step, from the table it starts at
+ */
+export function stepRelationType(step: GraphStep): 'one-to-one' | 'many-to-one' | 'one-to-many' {
+    if (step.edge.uniqueColumns) {
+        return 'one-to-one';
+    }
+
+    return step.direction === 'outgoing' ? 'many-to-one' : 'one-to-many';
+}
+
+/**
+ * Loads all foreign keys of a database, or of the given schemas (both ends must be inside them)
+ */
+export async function loadForeignKeys(
+    connectionManager: ConnectionManager,
+    database: DatabaseType,
+    schemas?: string[]
+): Promise<ForeignKeyEdge[]> {
+    // conparentid = 0 skips the copies PostgreSQL creates for each partition
+    const query = `
+    SELECT
+      con.conname AS constraint_name,
+      cn.nspname AS table_schema,
+      cc.relname AS table_name,
+      rn.nspname AS referenced_schema,
+      rc.relname AS referenced_table,
+      ${constraintColumnsSql('con', 'conkey')} AS columns,
+      ${constraintColumnsSql('con', 'confkey')} AS referenced_columns,
+      EXISTS (
+        SELECT 1
+        FROM pg_index i
+        WHERE i.indrelid = con.conrelid
+          AND i.indisunique
+          AND i.indpred IS NULL
+          AND ${INDEX_KEY_SQL} <@ con.conkey
+      ) AS unique_columns
+    FROM
+      pg_constraint con
+    JOIN
+      pg_class cc ON cc.oid = con.conrelid
+    JOIN
+      pg_namespace cn ON cn.oid = cc.relnamespace
+    JOIN
+      pg_class rc ON rc.oid = con.confrelid
+    JOIN
+      pg_namespace rn ON rn.oid = rc.relnamespace
+    WHERE
+      con.contype = 'f'
+      AND con.conparentid = 0
+      AND ($1::text[] IS NULL OR (cn.nspname = ANY($1::text[]) AND rn.nspname = ANY($1::text[])))
+    ORDER BY
+      cn.nspname, cc.relname, con.conname
+  `;
+
+    const result = await connectionManager.executeQuery(
+        database,
+        query,
+        [schemas && schemas.length > 0 ? schemas : null],
+        LIMITS.QUERY_MAX
+    );
+
+    const policy = connectionManager.getAccessPolicy();
+
+    // Foreign keys touching a denied table or a hidden column are left out of the graph
+    return result.rows
+        .filter(row => !policy.isForeignKeyHidden(
+            database,
+            { schema: row.table_schema as string, table: row.table_name as string, columns: row.columns as string[] },
+            { schema: row.referenced_schema as string, table: row.referenced_table as string, columns: row.referenced_columns as string[] }
+        ))
+        .map(row => ({
+            name: row.constraint_name as string,
+            from: qualifiedName(row.table_schema as string, row.table_name as string),
+            to: qualifiedName(row.referenced_schema as string, row.referenced_table as string),
+            columns: toColumnPairs(row.columns as string[], row.referenced_columns as string[]),
+            uniqueColumns: row.unique_columns as boolean
+        }));
+}
+
+/**
+ * Undirected view of the foreign keys between tables
+ */
+export class ForeignKeyGraph {
+    private adjacency: Map<string, GraphStep[]> = new Map();
+
+    constructor(readonly edges: ForeignKeyEdge[]) {
+        for (const edge of edges) {
+            this.addStep(edge.from, { edge, direction: 'outgoing', table: edge.to });
+
+            // A self-reference is a single edge; walking it back would repeat it
+            if (edge.from !== edge.to) {
+                this.addStep(edge.to, { edge, direction: 'incoming', table: edge.from });
+            }
+        }
+    }
+
+    hasTable(table: string): boolean {
+        return this.adjacency.has(table);
+    }
+
+    tables(): string[] {
+        return Array.from(this.adjacency.keys()).sort();
+    }
+
+    steps(table: string): GraphStep[] {
+        return this.adjacency.get(table) ?? [];
+    }
+
+    /**
+     * Resolves `schema.table` or a bare table name. A bare name must be unique among graph tables,
+     * unless it exists in `public`.
+     */
+    resolveTable(name: string): string {
+        if (this.hasTable(name)) {
+            return name;
+        }
+
+        if (!name.includes('.')) {
+            const matches = this.tables().filter(table => splitQualifiedName(table).table === name);
+
+            if (matches.length === 1) {
+                return matches[0];
+            }
+
+            if (matches.includes(qualifiedName('public', name))) {
+                return qualifiedName('public', name);
+            }
+
+            if (matches.length > 1) {
+                throw new Error(`Table name "${name}" is ambiguous. Use one of: ${matches.join(', ')}`);
+            }
+        }
+
+        throw new Error(`Table "${name}" has no foreign key relationships in the selected schemas, or does not exist`);
+    }
+
+    /**
+     * Returns the shortest paths (fewest joins) between two tables, up to `maxPaths`.
+     * Paths through different foreign keys between the same tables are distinct.
+     */
+    shortestPaths(from: string, to: string, maxDepth: number, maxPaths: number): GraphStep[][] {
+        if (from === to) {
+            return [[]];
+        }
+
+        // Breadth-first search recording, for each table, every step that reaches it at its shortest distance
+        const distance = new Map<string, number>([[from, 0]]);
+        const reachedBy = new Map<string, Array<{ previous: string; step: GraphStep }>>();
+        let frontier = [from];
+
+        for (let depth = 1; depth <= maxDepth && frontier.length > 0 && !distance.has(to); depth++) {
+            const next: string[] = [];
+
+            for (const table of frontier) {
+                for (const step of this.steps(table)) {
+                    const known = distance.get(step.table);
+
+                    if (known === undefined) {
+                        distance.set(step.table, depth);
+                        next.push(step.table);
+                    } else if (known !== depth) {
+                        continue;
+                    }
+
+                    const entries = reachedBy.get(step.table) ?? [];
+                    entries.push({ previous: table, step });
+                    reachedBy.set(step.table, entries);
+                }
+            }
+
+            frontier = next;
+        }
+
+        if (!distance.has(to)) {
+            return [];
+        }
+
+        // Walk back from the target through the recorded steps
+        const paths: GraphStep[][] = [];
+        const walk = (table: string, suffix: GraphStep[]): void => {
+            if (paths.length >= maxPaths) {
+                return;
+            }
+
+            if (table === from) {
+                paths.push(suffix);
+                return;
+            }
+
+            for (const { previous, step } of reachedBy.get(table) ?? []) {
+                walk(previous, [step, ...suffix]);
+            }
+        };
+
+        walk(to, []);
+
+        return paths;
+    }
+
+    /**
+     * Returns the tables within `depth` joins of a table, with their distance
+     */
+    neighborhood(center: string, depth: number): Map<string, number> {
+        const distance = new Map<string, number>([[center, 0]]);
+        let frontier = [center];
+
+        for (let level = 1; level <= depth && frontier.length > 0; level++) {
+            const next: string[] = [];
+
+            for (const table of frontier) {
+                for (const step of this.steps(table)) {
+                    if (!distance.has(step.table)) {
+                        distance.set(step.table, level);
+                        next.push(step.table);
+                    }
+                }
+            }
+
+            frontier = next;
+        }
+
+        return distance;
+    }
+
+    private addStep(table: string, step: GraphStep): void {
+        const steps = this.adjacency.get(table) ?? [];
+        steps.push(step);
+        this.adjacency.set(table, steps);
+    }
+}
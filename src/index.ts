@@ -3,13 +3,26 @@
  * PostgreSQL Read-Only MCP Server Entry Point
  * 
  * MCP server that provides read-only access to PostgreSQL databases.
- * Supports DB and DB2 connections with tools for:
- * - Listing tables
+ * Supports any number of named database targets with tools for:
+ * - Listing schemas and tables
+ * - Searching tables and columns across schemas
  * - Describing table schemas
- * - Previewing data
+ * - Previewing and profiling data
  * - Running custom SELECT queries
- * - Showing table relationships
+ * - Paginating large results with server-side cursors
+ * - Explaining query plans
+ * - Showing table relationships and join paths
+ * - Exporting ER diagrams
  * - Getting database statistics
+ * - Comparing schemas and table data across databases
+ * 
+ * Table definitions are also exposed as MCP resources, and common
+ * investigation workflows as MCP prompts. An optional access policy
+ * denies schemas and tables and hides or masks columns across all tools,
+ * an optional PII scanner masks personal data in returned values,
+ * an optional audit log records every tool call and the SQL it sent,
+ * optional rate limits cap calls, rows and execution time per database and tool,
+ * and an optional cost guard rejects queries the planner estimates to be expensive.
  * 
  * @module index
  */
@@ -18,19 +31,53 @@ import 'dotenv/config';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+    CallToolRequest,
     CallToolRequestSchema,
     ListToolsRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+    ListPromptsRequestSchema,
+    GetPromptRequestSchema,
     ErrorCode,
     McpError
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { ConnectionManager, createConfigFromEnv, DatabaseType } from './connection-manager.js';
-import { listTables, ListTablesInput } from './tools/list-tables.js';
+import {
+    ConnectionManager,
+    loadDatabaseConfigs,
+    parseBooleanEnv,
+    DatabaseType
+} from './connection-manager.js';
+import { ReadOnlyStatus, RELATION_KINDS } from './types.js';
+import { parseEncodingOptions } from './value-encoder.js';
+import { formatResult, OutputFormat, OUTPUT_FORMATS } from './result-formatter.js';
+import { SchemaCache } from './schema-cache.js';
+import { loadAccessPolicy } from './access-policy.js';
+import { loadPiiScanner } from './pii-scanner.js';
+import { loadAuditLog } from './audit-log.js';
+import { loadRateLimiter } from './rate-limiter.js';
+import { loadCostGuard } from './cost-guard.js';
+import { listResources, readResource, resourceDatabase, RESOURCE_TEMPLATES } from './resources.js';
+import { getPrompt, PROMPT_DEFINITIONS } from './prompts.js';
+import { listSchemas, ListSchemasInput } from './tools/list-schemas.js';
+import { searchSchema, SearchSchemaInput } from './tools/search-schema.js';
+import { listTables, ListTablesInput, parseRelationKinds } from './tools/list-tables.js';
 import { describeTable, DescribeTableInput } from './tools/describe-table.js';
 import { previewData, PreviewDataInput } from './tools/preview-data.js';
-import { runQuery, RunQueryInput } from './tools/run-query.js';
+import { runQuery, RunQueryInput, QueryParam } from './tools/run-query.js';
+import { explainQuery, ExplainQueryInput } from './tools/explain-query.js';
+import { fetchPage, FetchPageInput } from './tools/fetch-page.js';
+import { closeCursor, CloseCursorInput } from './tools/close-cursor.js';
 import { showRelations, ShowRelationsInput } from './tools/show-relations.js';
+import { findJoinPaths, FindJoinPathsInput } from './tools/find-join-paths.js';
+import { relationGraph, RelationGraphInput } from './tools/relation-graph.js';
+import { erDiagram, ErDiagramInput, DIAGRAM_FORMATS } from './tools/er-diagram.js';
+import { diffSchema, DiffSchemaInput } from './tools/diff-schema.js';
+import { compareData, CompareDataInput } from './tools/compare-data.js';
+import { profileTable, ProfileTableInput, PROFILE_MODES } from './tools/profile-table.js';
 import { dbStats, DbStatsInput } from './tools/db-stats.js';
+import { refreshSchema, RefreshSchemaInput } from './tools/refresh-schema.js';
 
 /**
  * Server configuration
@@ -38,166 +85,595 @@ import { dbStats, DbStatsInput } from './tools/db-stats.js';
 const SERVER_NAME = 'postgres-readonly-mcp';
 const SERVER_VERSION = '1.0.0';
 
-function normalizeDatabase(input: unknown): DatabaseType | undefined {
-    if (input === 'db' || input === 'db2') {
-        return input;
+// Names that resource reads and prompts are rate limited under, as if they were tools
+const RESOURCE_LIMIT_KEY = 'read_resource';
+const PROMPT_LIMIT_KEY = 'get_prompt';
+
+function parseDatabaseArg(input: unknown, connectionManager: ConnectionManager): DatabaseType | undefined {
+    if (input === undefined) {
+        return undefined;
+    }
+
+    if (typeof input !== 'string' || !connectionManager.hasDatabase(input)) {
+        const allowed = connectionManager.getDatabaseNames().join(', ');
+        throw new McpError(ErrorCode.InvalidParams, `Invalid database. Allowed values: ${allowed}`);
+    }
+
+    return input;
+}
+
+/**
+ * Databases a tool call will query: the cursor's database for fetch_page, otherwise its
+ * `database`, `source` and `target` arguments, with the default database standing in for
+ * an omitted `database` or `source`
+ */
+function targetDatabases(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    connectionManager: ConnectionManager
+): DatabaseType[] {
+    if (name === 'fetch_page') {
+        const database = typeof args?.cursor === 'string'
+            ? connectionManager.getCursorDatabase(args.cursor)
+            : undefined;
+
+        return database ? [database] : [];
+    }
+
+    const databases = [args?.database, args?.source, args?.target]
+        .filter((value): value is string => typeof value === 'string' && connectionManager.hasDatabase(value));
+
+    if (args?.database === undefined && args?.source === undefined) {
+        databases.push(connectionManager.getDefaultDatabase());
     }
 
-    return undefined;
+    return databases;
 }
 
-function parseDatabaseArg(input: unknown): DatabaseType | undefined {
+function parseFormatArg(input: unknown): OutputFormat | undefined {
     if (input === undefined) {
         return undefined;
     }
 
-    const database = normalizeDatabase(input);
-
-    if (!database) {
-        throw new McpError(ErrorCode.InvalidParams, 'Invalid database. Allowed values: db, db2');
+    if (typeof input !== 'string' || !(OUTPUT_FORMATS as readonly string[]).includes(input)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid format. Allowed values: ${OUTPUT_FORMATS.join(', ')}`);
     }
 
-    return database;
+    return input as OutputFormat;
+}
+
+/**
+ * Builds the `database` property schema from the configured database names
+ */
+function databaseProperty(databases: DatabaseType[], description: string) {
+    return {
+        type: 'string',
+        enum: databases,
+        description
+    };
 }
 
+/**
+ * Schema for the per-call value encoding options of row-returning tools
+ */
+const ENCODING_PROPERTY = {
+    type: 'object',
+    properties: {
+        bytea: { type: 'string', enum: ['hex', 'base64'], description: 'bytea encoding (default: hex). Values include their size in bytes.' },
+        numeric: { type: 'string', enum: ['tagged', 'string', 'number'], description: 'numeric as { "$type": "numeric", "value": "..." } (default), exact string, or lossy number.' },
+        int8: { type: 'string', enum: ['number', 'string'], description: 'int8 as number when safe, tagged string otherwise (default), or always string.' },
+        timestamps: { type: 'string', enum: ['iso', 'raw'], description: 'date/timestamp as ISO 8601 with explicit offset for timestamptz (default), or PostgreSQL text.' },
+        intervals: { type: 'string', enum: ['iso', 'raw'], description: 'interval as ISO 8601 duration (default), or PostgreSQL text.' },
+        ranges: { type: 'string', enum: ['object', 'raw'], description: 'ranges as { lower, upper, lowerInclusive, upperInclusive } (default), or PostgreSQL text.' }
+    },
+    description: 'How PostgreSQL values are represented in the output.'
+};
+
+/**
+ * Schema for the output format of row-returning tools
+ */
+const FORMAT_PROPERTY = {
+    type: 'string',
+    enum: [...OUTPUT_FORMATS],
+    description: 'Output format: json (default, one object per row), columnar (compact JSON with a field list and row arrays), '
+        + 'markdown (table), or csv. Every format cuts cell text to 200 characters and adds a notice when rows were truncated.'
+};
+
 /**
  * Tool definitions for MCP protocol
  */
-const TOOL_DEFINITIONS = [
-    {
-        name: 'list_tables',
-        description: 'Lists all tables in a database with their type (BASE TABLE or VIEW), row count estimate, and schema.',
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                database: {
-                    type: 'string',
-                    enum: ['db', 'db2'],
-                    description: 'Database to list tables from. Defaults to "db".'
+function buildToolDefinitions(databases: DatabaseType[], defaultDatabase: DatabaseType) {
+    return [
+        {
+            name: 'list_schemas',
+            description: 'Lists the schemas of a database with their owner, table count, total size and comment.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    database: databaseProperty(databases, `Database to list schemas from. Defaults to "${defaultDatabase}".`)
+                }
+            }
+        },
+        {
+            name: 'search_schema',
+            description: 'Searches table names, column names and comments across all schemas. Use it to find where a table or column lives.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    query: {
+                        type: 'string',
+                        description: 'Text to search for (case-insensitive).'
+                    },
+                    database: databaseProperty(databases, `Database to search. Defaults to "${defaultDatabase}".`),
+                    schemas: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Only search these schemas. Searches all schemas if not specified.'
+                    },
+                    mode: {
+                        type: 'string',
+                        enum: ['substring', 'fuzzy'],
+                        description: 'substring (default) matches the text anywhere in a name; fuzzy also matches names containing its characters in order, e.g. "custid" finds "customer_id". Comments are always matched as substrings.'
+                    },
+                    limit: {
+                        type: 'number',
+                        description: 'Maximum matches to return (default: 50, max: 500).'
+                    }
                 },
-                schema: {
-                    type: 'string',
-                    description: 'Schema to list tables from. Defaults to "public".'
+                required: ['query']
+            }
+        },
+        {
+            name: 'list_tables',
+            description: 'Lists tables, partitioned tables, partitions, views, materialized views and foreign tables in a schema with their kind, row count estimate, total size and comment.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    database: databaseProperty(databases, `Database to list tables from. Defaults to "${defaultDatabase}".`),
+                    schema: {
+                        type: 'string',
+                        description: 'Schema to list tables from. Defaults to "public".'
+                    },
+                    kinds: {
+                        type: 'array',
+                        items: { type: 'string', enum: RELATION_KINDS },
+                        description: 'Only list relations of these kinds. Lists all kinds if not specified.'
+                    },
+                    pattern: {
+                        type: 'string',
+                        description: 'Case-insensitive name filter. Uses LIKE wildcards (% and _) when it contains %, otherwise matches anywhere in the name.'
+                    },
+                    partitions: {
+                        type: 'boolean',
+                        description: 'Include partitions of partitioned tables (default: true). Partitioned tables report the rows and size of all their partitions.'
+                    }
                 }
             }
-        }
-    },
-    {
-        name: 'describe_table',
-        description: 'Returns detailed schema information for a table including columns (name, type, nullable, default), primary key, and foreign keys.',
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                table: {
-                    type: 'string',
-                    description: 'Name of the table to describe.'
+        },
+        {
+            name: 'describe_table',
+            description: 'Returns detailed schema information for a table: columns (type, nullability, default, comment, identity/generated, enum labels, owned sequence), primary key, foreign keys, check/unique/exclusion constraints, indexes (method, expressions, INCLUDE columns, predicate), table comment and partitioning.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    table: {
+                        type: 'string',
+                        description: 'Name of the table to describe.'
+                    },
+                    database: databaseProperty(databases, `Database containing the table. Defaults to "${defaultDatabase}".`),
+                    schema: {
+                        type: 'string',
+                        description: 'Schema containing the table. Defaults to "public".'
+                    }
                 },
-                database: {
-                    type: 'string',
-                    enum: ['db', 'db2'],
-                    description: 'Database containing the table. Defaults to "db".'
+                required: ['table']
+            }
+        },
+        {
+            name: 'preview_data',
+            description: 'Previews table data with optional column selection and automatic text truncation.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    table: {
+                        type: 'string',
+                        description: 'Name of the table to preview.'
+                    },
+                    database: databaseProperty(databases, `Database containing the table. Defaults to "${defaultDatabase}".`),
+                    schema: {
+                        type: 'string',
+                        description: 'Schema containing the table. Defaults to "public".'
+                    },
+                    columns: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Specific columns to return. Returns all columns if not specified.'
+                    },
+                    limit: {
+                        type: 'number',
+                        description: 'Maximum rows to return (default: 10, max: 100). Page size when paginate is true.'
+                    },
+                    paginate: {
+                        type: 'boolean',
+                        description: 'Open a server-side cursor and return a "cursor" token while more rows remain. Read further pages with fetch_page.'
+                    },
+                    encoding: ENCODING_PROPERTY,
+                    format: FORMAT_PROPERTY
                 },
-                schema: {
-                    type: 'string',
-                    description: 'Schema containing the table. Defaults to "public".'
-                }
-            },
-            required: ['table']
-        }
-    },
-    {
-        name: 'preview_data',
-        description: 'Previews table data with optional column selection and automatic text truncation.',
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                table: {
-                    type: 'string',
-                    description: 'Name of the table to preview.'
+                required: ['table']
+            }
+        },
+        {
+            name: 'run_query',
+            description: 'Executes a custom SELECT query with strict validation. Only SELECT statements are allowed. Use $1..$n placeholders with params instead of inlining values. Results are server-limited.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    query: {
+                        type: 'string',
+                        description: 'SQL query to execute. Must be a read-only query.'
+                    },
+                    database: databaseProperty(databases, `Database to run the query against. Defaults to "${defaultDatabase}".`),
+                    limit: {
+                        type: 'number',
+                        description: 'Maximum rows to return (default: 1000, max: 5000).'
+                    },
+                    params: {
+                        type: 'array',
+                        items: {
+                            type: ['string', 'number', 'boolean', 'null', 'object']
+                        },
+                        description: 'Values for $1..$n placeholders, in order. Plain strings, numbers, booleans and null are passed as-is. '
+                            + 'Use { "type": ..., "value": ... } for typed values: string, number, integer, boolean, date (YYYY-MM-DD), '
+                            + 'timestamp (ISO 8601), json, array, null.'
+                    },
+                    paginate: {
+                        type: 'boolean',
+                        description: 'Open a server-side cursor and return a "cursor" token while more rows remain. '
+                            + 'limit becomes the page size. Read further pages with fetch_page.'
+                    },
+                    encoding: ENCODING_PROPERTY,
+                    format: FORMAT_PROPERTY
                 },
-                database: {
-                    type: 'string',
-                    enum: ['db', 'db2'],
-                    description: 'Database containing the table. Defaults to "db".'
+                required: ['query']
+            }
+        },
+        {
+            name: 'fetch_page',
+            description: 'Fetches the next page of a paginated run_query or preview_data result. The result repeats the same "cursor" token while more rows remain; call again with it for the following page. Cursors expire after 5 minutes of inactivity.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    cursor: {
+                        type: 'string',
+                        description: 'Cursor token from a previous paginated result.'
+                    },
+                    limit: {
+                        type: 'number',
+                        description: 'Page size (max: 5000). Defaults to the page size the cursor was opened with.'
+                    },
+                    encoding: ENCODING_PROPERTY,
+                    format: FORMAT_PROPERTY
+                },
+                required: ['cursor']
+            }
+        },
+        {
+            name: 'close_cursor',
+            description: 'Closes a pagination cursor before it is exhausted, releasing its database connection.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    cursor: {
+                        type: 'string',
+                        description: 'Cursor token to close.'
+                    }
                 },
-                schema: {
-                    type: 'string',
-                    description: 'Schema containing the table. Defaults to "public".'
+                required: ['cursor']
+            }
+        },
+        {
+            name: 'explain_query',
+            description: 'Returns a summarized EXPLAIN plan for a SELECT query: node types, estimated and actual rows, costs, and warnings such as sequential scans on large tables.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    query: {
+                        type: 'string',
+                        description: 'SELECT query to explain. Validated with the same rules as run_query.'
+                    },
+                    database: databaseProperty(databases, `Database to explain the query against. Defaults to "${defaultDatabase}".`),
+                    analyze: {
+                        type: 'boolean',
+                        description: 'Execute the query (inside a rolled-back READ ONLY transaction) to report actual rows and timings. Defaults to false.'
+                    }
                 },
-                columns: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Specific columns to return. Returns all columns if not specified.'
+                required: ['query']
+            }
+        },
+        {
+            name: 'show_relations',
+            description: 'Shows all foreign key relationships for a table in both directions: column pairs (composite keys in order), ON DELETE/UPDATE actions, deferrability, and cardinality from unique keys, including many-to-many relations through join tables.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    table: {
+                        type: 'string',
+                        description: 'Name of the table to show relationships for.'
+                    },
+                    database: databaseProperty(databases, `Database containing the table. Defaults to "${defaultDatabase}".`),
+                    schema: {
+                        type: 'string',
+                        description: 'Schema containing the table. Defaults to "public".'
+                    }
                 },
-                limit: {
-                    type: 'number',
-                    description: 'Maximum rows to return (default: 10, max: 100).'
-                }
-            },
-            required: ['table']
-        }
-    },
-    {
-        name: 'run_query',
-        description: 'Executes a custom SELECT query with strict validation. Only SELECT statements are allowed. Results are server-limited.',
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                query: {
-                    type: 'string',
-                    description: 'SQL query to execute. Must be a read-only query.'
+                required: ['table']
+            }
+        },
+        {
+            name: 'find_join_paths',
+            description: 'Finds the shortest foreign key paths between two tables across the whole database (or the given schemas), with ready-made JOIN clauses and the column pairs of each join. Use it to answer "how do I get from table A to table B?".',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    from: {
+                        type: 'string',
+                        description: 'Start table, as "schema.table" or a table name. Bare names are looked up in all schemas, preferring "public" when ambiguous.'
+                    },
+                    to: {
+                        type: 'string',
+                        description: 'Target table, in the same form as from.'
+                    },
+                    database: databaseProperty(databases, `Database containing the tables. Defaults to "${defaultDatabase}".`),
+                    schemas: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Only follow foreign keys between tables of these schemas. Uses all schemas if not specified.'
+                    },
+                    maxPaths: {
+                        type: 'number',
+                        description: 'Maximum number of shortest paths to return (default: 5, max: 50).'
+                    },
+                    maxDepth: {
+                        type: 'number',
+                        description: 'Maximum number of joins in a path (default: 6, max: 10).'
+                    }
                 },
-                database: {
-                    type: 'string',
-                    enum: ['db', 'db2'],
-                    description: 'Database to run the query against. Defaults to "db".'
+                required: ['from', 'to']
+            }
+        },
+        {
+            name: 'relation_graph',
+            description: 'Returns the foreign key neighborhood of a table: every table within N joins of it, with their distance, and the foreign keys between them.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    table: {
+                        type: 'string',
+                        description: 'Center table, as "schema.table" or a table name.'
+                    },
+                    database: databaseProperty(databases, `Database containing the table. Defaults to "${defaultDatabase}".`),
+                    schemas: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Only follow foreign keys between tables of these schemas. Uses all schemas if not specified.'
+                    },
+                    depth: {
+                        type: 'number',
+                        description: 'Number of joins to follow from the table (default: 1, max: 5).'
+                    }
                 },
-                limit: {
-                    type: 'number',
-                    description: 'Maximum rows to return (default: 1000, max: 5000).'
+                required: ['table']
+            }
+        },
+        {
+            name: 'er_diagram',
+            description: 'Renders an entity-relationship diagram of a schema or selected tables as Mermaid erDiagram or Graphviz DOT, with columns, PK/FK/UK markers and crow\'s foot cardinality. Returns the diagram source.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    database: databaseProperty(databases, `Database containing the tables. Defaults to "${defaultDatabase}".`),
+                    schema: {
+                        type: 'string',
+                        description: 'Schema to draw, and the schema of bare table names. Defaults to "public". Without tables, draws every table of the schema (views and partitions left out).'
+                    },
+                    tables: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Only draw these tables, as "schema.table" or a name in schema. Only foreign keys between drawn tables are shown.'
+                    },
+                    format: {
+                        type: 'string',
+                        enum: [...DIAGRAM_FORMATS],
+                        description: 'mermaid (default) or dot.'
+                    }
                 }
-            },
-            required: ['query']
-        }
-    },
-    {
-        name: 'show_relations',
-        description: 'Shows all foreign key relationships for a table, including tables that reference this table and tables this table references.',
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                table: {
-                    type: 'string',
-                    description: 'Name of the table to show relationships for.'
+            }
+        },
+        {
+            name: 'refresh_schema',
+            description: 'Reloads the cached table list used for MCP resources and clears cached type information. Notifies clients when tables were added or removed.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    database: databaseProperty(databases, `Database to refresh. Defaults to "${defaultDatabase}".`)
+                }
+            }
+        },
+        {
+            name: 'db_stats',
+            description: 'Returns database statistics including total table count, total row count estimate, and database size.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    database: databaseProperty(databases, `Database to get statistics for. Defaults to "${defaultDatabase}".`)
+                }
+            }
+        },
+        {
+            name: 'diff_schema',
+            description: 'Compares the structure of two schemas, in two databases or in the same one: tables, columns (type, nullability, default, identity, generated), indexes, constraints and foreign keys that were added, removed or changed. Returns a readable summary and a structured report.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    source: databaseProperty(databases, `Baseline database. Defaults to "${defaultDatabase}".`),
+                    target: databaseProperty(databases, 'Database compared against the source. Use the same database as source to compare two schemas.'),
+                    sourceSchema: {
+                        type: 'string',
+                        description: 'Schema in the source database. Defaults to "public".'
+                    },
+                    targetSchema: {
+                        type: 'string',
+                        description: 'Schema in the target database. Defaults to sourceSchema.'
+                    }
                 },
-                database: {
-                    type: 'string',
-                    enum: ['db', 'db2'],
-                    description: 'Database containing the table. Defaults to "db".'
+                required: ['target']
+            }
+        },
+        {
+            name: 'compare_table_data',
+            description: 'Checks whether a table\'s data matches between two databases, e.g. a primary and a replica. Compares per-column aggregates and checksums over primary key ordered chunks, narrows differing chunks down to key ranges, and returns sample rows that are missing, extra or changed. Requires a primary key.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    table: {
+                        type: 'string',
+                        description: 'Name of the table to compare.'
+                    },
+                    source: databaseProperty(databases, `Baseline database. Defaults to "${defaultDatabase}".`),
+                    target: databaseProperty(databases, 'Database compared against the source.'),
+                    schema: {
+                        type: 'string',
+                        description: 'Schema containing the table in both databases. Defaults to "public".'
+                    },
+                    chunkSize: {
+                        type: 'number',
+                        description: 'Rows per checksum chunk (default: 10000, max: 100000). Each chunk query must finish within the query timeout.'
+                    },
+                    maxChunks: {
+                        type: 'number',
+                        description: 'Maximum chunks to compare (default: 100, max: 1000). Larger tables are compared partially.'
+                    },
+                    sampleLimit: {
+                        type: 'number',
+                        description: 'Maximum differing rows to return (default: 10, max: 100).'
+                    }
                 },
-                schema: {
-                    type: 'string',
-                    description: 'Schema containing the table. Defaults to "public".'
-                }
-            },
-            required: ['table']
+                required: ['table', 'target']
+            }
+        },
+        {
+            name: 'profile_table',
+            description: 'Profiles the columns of a table: null fraction, distinct count, min/max, most common values with frequencies, text length distribution and histograms for numbers and dates. fast mode reads planner statistics (pg_stats); exact mode runs aggregates over the table or a TABLESAMPLE of it.',
+            inputSchema: {
+                type: 'object' as const,
+                properties: {
+                    table: {
+                        type: 'string',
+                        description: 'Name of the table to profile.'
+                    },
+                    database: databaseProperty(databases, `Database containing the table. Defaults to "${defaultDatabase}".`),
+                    schema: {
+                        type: 'string',
+                        description: 'Schema containing the table. Defaults to "public".'
+                    },
+                    columns: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Only profile these columns. Profiles all columns if not specified.'
+                    },
+                    mode: {
+                        type: 'string',
+                        enum: [...PROFILE_MODES],
+                        description: 'fast (default) reads pg_stats as collected by ANALYZE; exact runs aggregate queries, sampling tables estimated above 100000 rows.'
+                    },
+                    samplePercent: {
+                        type: 'number',
+                        description: 'exact mode: percentage of table blocks to sample (TABLESAMPLE SYSTEM), up to 100 for the whole table. Chosen from the row estimate if not specified.'
+                    },
+                    mostCommon: {
+                        type: 'integer',
+                        minimum: 1,
+                        description: 'Most common values per column (default: 10, max: 100).'
+                    },
+                    buckets: {
+                        type: 'integer',
+                        minimum: 1,
+                        description: 'Histogram buckets (default: 10, max: 50).'
+                    }
+                },
+                required: ['table']
+            }
         }
-    },
-    {
-        name: 'db_stats',
-        description: 'Returns database statistics including total table count, total row count estimate, and database size.',
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                database: {
-                    type: 'string',
-                    enum: ['db', 'db2'],
-                    description: 'Database to get statistics for. Defaults to "db".'
-                }
+    ];
+}
+
+/**
+ * Verifies read-only enforcement for every configured database and reports it on stderr.
+ * In strict mode, a role with write privileges or a failed check stops the server from starting.
+ */
+async function verifyReadOnlyAccess(connectionManager: ConnectionManager, strict: boolean): Promise<void> {
+    for (const database of connectionManager.getDatabaseNames()) {
+        let status: ReadOnlyStatus;
+
+        try {
+            status = await connectionManager.verifyReadOnly(database);
+        } catch (error) {
+            const message = `[${database}] Read-only check failed: ${(error as Error).message}`;
+
+            if (strict) {
+                throw new Error(message);
+            }
+
+            console.error(`Warning: ${message}`);
+            continue;
+        }
+
+        if (!status.transactionReadOnly) {
+            throw new Error(`[${database}] Queries are not running in a read-only transaction`);
+        }
+
+        console.error(
+            `[${database}] Read-only transactions active for role "${status.role}" ` +
+            `(default_transaction_read_only=${status.defaultTransactionReadOnly ? 'on' : 'off'})`
+        );
+
+        if (status.writePrivileges.length > 0) {
+            const message = `[${database}] Role "${status.role}" has write privileges: ${status.writePrivileges.join(', ')}`;
+
+            if (strict) {
+                throw new Error(`${message}. Refusing to start because READ_ONLY_STRICT is enabled.`);
             }
+
+            console.error(`Warning: ${message}. Use a read-only role or set READ_ONLY_STRICT=true to refuse startup.`);
         }
     }
-];
+}
+
+/**
+ * Periodically refreshes the schema cache of every database.
+ * Enabled with SCHEMA_REFRESH_INTERVAL_MS; refreshes that change a table list notify clients.
+ */
+function scheduleSchemaRefresh(connectionManager: ConnectionManager, schemaCache: SchemaCache): void {
+    const interval = parseInt(process.env.SCHEMA_REFRESH_INTERVAL_MS || '0', 10);
+
+    if (!Number.isFinite(interval) || interval <= 0) {
+        return;
+    }
+
+    const timer = setInterval(async () => {
+        for (const database of connectionManager.getDatabaseNames()) {
+            try {
+                await schemaCache.refresh(database);
+            } catch (error) {
+                console.error(`[${database}] Schema refresh failed: ${(error as Error).message}`);
+            }
+        }
+    }, interval);
+
+    // The refresh timer must not keep the process alive
+    timer.unref();
+}
 
 /**
  * Creates and configures the MCP server
@@ -210,34 +686,176 @@ async function createServer(): Promise<Server> {
         },
         {
             capabilities: {
-                tools: {}
+                tools: {},
+                resources: {
+                    listChanged: true
+                },
+                prompts: {}
             }
         }
     );
 
     // Initialize connection manager
     const connectionManager = new ConnectionManager();
-    const configs = createConfigFromEnv();
+    const configs = loadDatabaseConfigs();
+
+    await connectionManager.initialize(configs.databases, configs.defaultDatabase);
+    connectionManager.setAccessPolicy(loadAccessPolicy(connectionManager.getDatabaseNames()));
+    connectionManager.setPiiScanner(loadPiiScanner());
+    connectionManager.setCostGuard(loadCostGuard());
+
+    const auditLog = loadAuditLog();
+
+    connectionManager.setAuditLog(auditLog);
+    await verifyReadOnlyAccess(connectionManager, parseBooleanEnv(process.env.READ_ONLY_STRICT, false));
+
+    const schemaCache = new SchemaCache(connectionManager);
+
+    schemaCache.onChange(() => {
+        server.sendResourceListChanged().catch(error => {
+            console.error(`Failed to send resource list change notification: ${(error as Error).message}`);
+        });
+    });
+
+    scheduleSchemaRefresh(connectionManager, schemaCache);
+
+    const toolDefinitions = buildToolDefinitions(
+        connectionManager.getDatabaseNames(),
+        connectionManager.getDefaultDatabase()
+    );
+    const rateLimiter = loadRateLimiter(
+        connectionManager.getDatabaseNames(),
+        [...toolDefinitions.map(tool => tool.name), RESOURCE_LIMIT_KEY, PROMPT_LIMIT_KEY]
+    );
 
-    await connectionManager.initialize(configs.db, configs.db2);
+    connectionManager.setRateLimiter(rateLimiter);
 
     // Register list tools handler
     server.setRequestHandler(ListToolsRequestSchema, async () => {
         return {
-            tools: TOOL_DEFINITIONS
+            tools: toolDefinitions
         };
     });
 
-    // Register call tool handler
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    // Register resource handlers
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+        return {
+            resources: await listResources(connectionManager, schemaCache)
+        };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+        return {
+            resourceTemplates: RESOURCE_TEMPLATES
+        };
+    });
+
+    // Resource reads and prompts run tool queries too, so they are recorded and rate limited like tool calls
+    const audited = <T>(entry: string, args: Record<string, unknown> | undefined, call: () => Promise<T>): Promise<T> =>
+        auditLog ? auditLog.record(entry, args, call) : call();
+
+    // Calls over a rate limit are refused before they run, with the seconds to wait in the error data
+    const limited = async <T>(key: string, databases: DatabaseType[], call: () => Promise<T>): Promise<T> => {
+        if (!rateLimiter) {
+            return call();
+        }
+
+        const denial = rateLimiter.check(key, databases);
+
+        if (denial) {
+            throw new McpError(ErrorCode.InvalidRequest, denial.message, { retryAfterSeconds: denial.retryAfterSeconds });
+        }
+
+        return rateLimiter.run(key, databases, call);
+    };
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const { uri } = request.params;
+        const databases = targetDatabases(RESOURCE_LIMIT_KEY, { database: resourceDatabase(uri) }, connectionManager);
+
+        return audited(`resource:${uri}`, { uri }, () => limited(RESOURCE_LIMIT_KEY, databases, async () => {
+            try {
+                return await readResource(connectionManager, schemaCache, uri);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                throw new McpError(ErrorCode.InvalidParams, errorMessage);
+            }
+        }));
+    });
+
+    // Register prompt handlers
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+        return {
+            prompts: PROMPT_DEFINITIONS
+        };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        const { name, arguments: args } = request.params;
+        const databases = targetDatabases(PROMPT_LIMIT_KEY, args, connectionManager);
+
+        return audited(`prompt:${name}`, args, () => limited(PROMPT_LIMIT_KEY, databases, async () => {
+            try {
+                return await getPrompt(connectionManager, name, args);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                throw new McpError(ErrorCode.InvalidParams, errorMessage);
+            }
+        }));
+    });
+
+    const callTool = async (request: CallToolRequest) => {
         const { name, arguments: args } = request.params;
 
         try {
             switch (name) {
+                case 'list_schemas': {
+                    const input: ListSchemasInput = {
+                        database: parseDatabaseArg(args?.database, connectionManager)
+                    };
+                    const result = await listSchemas(connectionManager, input);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result, null, 2)
+                            }
+                        ]
+                    };
+                }
+
+                case 'search_schema': {
+                    if (!args?.query) {
+                        throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: query');
+                    }
+                    if (args.mode !== undefined && args.mode !== 'substring' && args.mode !== 'fuzzy') {
+                        throw new McpError(ErrorCode.InvalidParams, 'Invalid mode. Allowed values: substring, fuzzy');
+                    }
+                    const input: SearchSchemaInput = {
+                        query: args.query as string,
+                        database: parseDatabaseArg(args?.database, connectionManager),
+                        schemas: args?.schemas as string[] | undefined,
+                        mode: args?.mode as SearchSchemaInput['mode'],
+                        limit: args?.limit as number | undefined
+                    };
+                    const result = await searchSchema(connectionManager, input);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result, null, 2)
+                            }
+                        ]
+                    };
+                }
+
                 case 'list_tables': {
                     const input: ListTablesInput = {
-                        database: parseDatabaseArg(args?.database),
-                        schema: (args?.schema as string) || undefined
+                        database: parseDatabaseArg(args?.database, connectionManager),
+                        schema: (args?.schema as string) || undefined,
+                        kinds: parseRelationKinds(args?.kinds),
+                        pattern: (args?.pattern as string) || undefined,
+                        partitions: args?.partitions as boolean | undefined
                     };
                     const result = await listTables(connectionManager, input);
                     return {
@@ -256,7 +874,7 @@ async function createServer(): Promise<Server> {
                     }
                     const input: DescribeTableInput = {
                         table: args.table as string,
-                        database: parseDatabaseArg(args?.database),
+                        database: parseDatabaseArg(args?.database, connectionManager),
                         schema: (args?.schema as string) || undefined
                     };
                     const result = await describeTable(connectionManager, input);
@@ -276,12 +894,66 @@ async function createServer(): Promise<Server> {
                     }
                     const input: PreviewDataInput = {
                         table: args.table as string,
-                        database: parseDatabaseArg(args?.database),
+                        database: parseDatabaseArg(args?.database, connectionManager),
                         schema: (args?.schema as string) || undefined,
                         columns: args?.columns as string[] | undefined,
-                        limit: args?.limit as number | undefined
+                        limit: args?.limit as number | undefined,
+                        paginate: args?.paginate as boolean | undefined,
+                        encoding: parseEncodingOptions(args?.encoding)
                     };
+                    const format = parseFormatArg(args?.format);
                     const result = await previewData(connectionManager, input);
+                    return {
+                        content: formatResult(result, format)
+                            .map(text => ({ type: 'text', text }))
+                    };
+                }
+
+                case 'run_query': {
+                    if (!args?.query) {
+                        throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: query');
+                    }
+                    const input: RunQueryInput = {
+                        query: args.query as string,
+                        database: parseDatabaseArg(args?.database, connectionManager),
+                        limit: args?.limit as number | undefined,
+                        params: args?.params as QueryParam[] | undefined,
+                        paginate: args?.paginate as boolean | undefined,
+                        encoding: parseEncodingOptions(args?.encoding)
+                    };
+                    const format = parseFormatArg(args?.format);
+                    const result = await runQuery(connectionManager, input);
+                    return {
+                        content: formatResult(result, format)
+                            .map(text => ({ type: 'text', text }))
+                    };
+                }
+
+                case 'fetch_page': {
+                    if (!args?.cursor) {
+                        throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: cursor');
+                    }
+                    const input: FetchPageInput = {
+                        cursor: args.cursor as string,
+                        limit: args?.limit as number | undefined,
+                        encoding: parseEncodingOptions(args?.encoding)
+                    };
+                    const format = parseFormatArg(args?.format);
+                    const result = await fetchPage(connectionManager, input);
+                    return {
+                        content: formatResult(result, format)
+                            .map(text => ({ type: 'text', text }))
+                    };
+                }
+
+                case 'close_cursor': {
+                    if (!args?.cursor) {
+                        throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: cursor');
+                    }
+                    const input: CloseCursorInput = {
+                        cursor: args.cursor as string
+                    };
+                    const result = await closeCursor(connectionManager, input);
                     return {
                         content: [
                             {
@@ -292,16 +964,16 @@ async function createServer(): Promise<Server> {
                     };
                 }
 
-                case 'run_query': {
+                case 'explain_query': {
                     if (!args?.query) {
                         throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: query');
                     }
-                    const input: RunQueryInput = {
+                    const input: ExplainQueryInput = {
                         query: args.query as string,
-                        database: parseDatabaseArg(args?.database),
-                        limit: args?.limit as number | undefined
+                        database: parseDatabaseArg(args?.database, connectionManager),
+                        analyze: args?.analyze as boolean | undefined
                     };
-                    const result = await runQuery(connectionManager, input);
+                    const result = await explainQuery(connectionManager, input);
                     return {
                         content: [
                             {
@@ -318,7 +990,7 @@ async function createServer(): Promise<Server> {
                     }
                     const input: ShowRelationsInput = {
                         table: args.table as string,
-                        database: parseDatabaseArg(args?.database),
+                        database: parseDatabaseArg(args?.database, connectionManager),
                         schema: (args?.schema as string) || undefined
                     };
                     const result = await showRelations(connectionManager, input);
@@ -332,9 +1004,89 @@ async function createServer(): Promise<Server> {
                     };
                 }
 
+                case 'find_join_paths': {
+                    if (!args?.from || !args?.to) {
+                        throw new McpError(ErrorCode.InvalidParams, 'Missing required parameters: from, to');
+                    }
+                    const input: FindJoinPathsInput = {
+                        from: args.from as string,
+                        to: args.to as string,
+                        database: parseDatabaseArg(args?.database, connectionManager),
+                        schemas: args?.schemas as string[] | undefined,
+                        maxPaths: args?.maxPaths as number | undefined,
+                        maxDepth: args?.maxDepth as number | undefined
+                    };
+                    const result = await findJoinPaths(connectionManager, input);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result, null, 2)
+                            }
+                        ]
+                    };
+                }
+
+                case 'relation_graph': {
+                    if (!args?.table) {
+                        throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: table');
+                    }
+                    const input: RelationGraphInput = {
+                        table: args.table as string,
+                        database: parseDatabaseArg(args?.database, connectionManager),
+                        schemas: args?.schemas as string[] | undefined,
+                        depth: args?.depth as number | undefined
+                    };
+                    const result = await relationGraph(connectionManager, input);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result, null, 2)
+                            }
+                        ]
+                    };
+                }
+
+                case 'er_diagram': {
+                    if (args?.format !== undefined && !(DIAGRAM_FORMATS as readonly unknown[]).includes(args.format)) {
+                        throw new McpError(ErrorCode.InvalidParams, `Invalid format. Allowed values: ${DIAGRAM_FORMATS.join(', ')}`);
+                    }
+                    const input: ErDiagramInput = {
+                        database: parseDatabaseArg(args?.database, connectionManager),
+                        schema: (args?.schema as string) || undefined,
+                        tables: args?.tables as string[] | undefined,
+                        format: args?.format as ErDiagramInput['format']
+                    };
+                    const result = await erDiagram(connectionManager, input);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: result.diagram
+                            }
+                        ]
+                    };
+                }
+
+                case 'refresh_schema': {
+                    const input: RefreshSchemaInput = {
+                        database: parseDatabaseArg(args?.database, connectionManager)
+                    };
+                    const result = await refreshSchema(connectionManager, schemaCache, input);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result, null, 2)
+                            }
+                        ]
+                    };
+                }
+
                 case 'db_stats': {
                     const input: DbStatsInput = {
-                        database: parseDatabaseArg(args?.database)
+                        database: parseDatabaseArg(args?.database, connectionManager)
                     };
                     const result = await dbStats(connectionManager, input);
                     return {
@@ -347,6 +1099,83 @@ async function createServer(): Promise<Server> {
                     };
                 }
 
+                case 'diff_schema': {
+                    if (!args?.target) {
+                        throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: target');
+                    }
+                    const input: DiffSchemaInput = {
+                        source: parseDatabaseArg(args?.source, connectionManager),
+                        target: parseDatabaseArg(args.target, connectionManager)!,
+                        sourceSchema: (args?.sourceSchema as string) || undefined,
+                        targetSchema: (args?.targetSchema as string) || undefined
+                    };
+                    const result = await diffSchema(connectionManager, input);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: result.summary
+                            },
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result, null, 2)
+                            }
+                        ]
+                    };
+                }
+
+                case 'compare_table_data': {
+                    if (!args?.table || !args?.target) {
+                        throw new McpError(ErrorCode.InvalidParams, 'Missing required parameters: table, target');
+                    }
+                    const input: CompareDataInput = {
+                        table: args.table as string,
+                        source: parseDatabaseArg(args?.source, connectionManager),
+                        target: parseDatabaseArg(args.target, connectionManager)!,
+                        schema: (args?.schema as string) || undefined,
+                        chunkSize: args?.chunkSize as number | undefined,
+                        maxChunks: args?.maxChunks as number | undefined,
+                        sampleLimit: args?.sampleLimit as number | undefined
+                    };
+                    const result = await compareData(connectionManager, input);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result, null, 2)
+                            }
+                        ]
+                    };
+                }
+
+                case 'profile_table': {
+                    if (!args?.table) {
+                        throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: table');
+                    }
+                    if (args.mode !== undefined && !(PROFILE_MODES as readonly unknown[]).includes(args.mode)) {
+                        throw new McpError(ErrorCode.InvalidParams, `Invalid mode. Allowed values: ${PROFILE_MODES.join(', ')}`);
+                    }
+                    const input: ProfileTableInput = {
+                        table: args.table as string,
+                        database: parseDatabaseArg(args?.database, connectionManager),
+                        schema: (args?.schema as string) || undefined,
+                        columns: args?.columns as string[] | undefined,
+                        mode: args?.mode as ProfileTableInput['mode'],
+                        samplePercent: args?.samplePercent as number | undefined,
+                        mostCommon: args?.mostCommon as number | undefined,
+                        buckets: args?.buckets as number | undefined
+                    };
+                    const result = await profileTable(connectionManager, input);
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result, null, 2)
+                            }
+                        ]
+                    };
+                }
+
                 default:
                     throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
             }
@@ -358,6 +1187,16 @@ async function createServer(): Promise<Server> {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             throw new McpError(ErrorCode.InternalError, errorMessage);
         }
+    };
+
+    const limitedCall = async (request: CallToolRequest) => {
+        const { name, arguments: args } = request.params;
+        return limited(name, targetDatabases(name, args, connectionManager), () => callTool(request));
+    };
+
+    // Register call tool handler; with an audit log, each call is recorded with the SQL it sent
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+        return audited(request.params.name, request.params.arguments, () => limitedCall(request));
     });
 
     // Handle server shutdown
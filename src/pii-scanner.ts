@@ -0,0 +1,301 @@
+/**
+ * PII Scanner Module
+ *
+ * Detects personal data in text values of query results and masks it before results
+ * reach the client. Enabled with PII_MASKING; independent of the access policy, which
+ * masks columns by name.
+ *
+ * @module pii-scanner
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+import { FieldInfo, PiiKind, PiiMaskingInfo, PiiStrategy, PII_KINDS, PII_STRATEGIES, QueryResult } from './types.js';
+
+interface Detector {
+    kind: PiiKind;
+    pattern: RegExp; // Global pattern for candidates
+    isValid?: (match: string) => boolean; // Checksum or range check that rules out look-alikes
+}
+
+/**
+ * Column types whose values are scanned; numbers, dates and identifiers are left alone
+ */
+const SCANNED_TYPES = ['text', 'varchar', 'bpchar', 'char', 'citext', 'json', 'jsonb', 'xml', 'unknown'];
+
+const REDACTED_VALUE = '[REDACTED]';
+
+/**
+ * Length of the hex digest kept by the hash strategy
+ */
+const HASH_LENGTH = 12;
+
+function digits(text: string): string {
+    return text.replace(/\D/g, '');
+}
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+function isLuhnValid(match: string): boolean {
+    const number = digits(match);
+
+    if (number.length < 13 || number.length > 19) {
+        return false;
+    }
+
+    let sum = 0;
+
+    for (let index = 0; index < number.length; index++) {
+        let digit = Number(number[number.length - 1 - index]);
+
+        if (index % 2 === 1) {
+            digit *= 2;
+            digit = digit > 9 ? digit - 9 : digit;
+        }
+
+        sum += digit;
+    }
+
+    return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 check: the rearranged IBAN, letters as numbers, is 1 modulo 97
+ */
+function isIbanValid(match: string): boolean {
+    const iban = match.replace(/\s/g, '');
+
+    if (iban.length < 15 || iban.length > 34) {
+        return false;
+    }
+
+    const numeric = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+    let remainder = 0;
+
+    for (const digit of numeric) {
+        remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+
+    return remainder === 1;
+}
+
+/**
+ * US social security numbers exclude area 000, 666 and 900-999, group 00 and serial 0000
+ */
+function isSsnValid(match: string): boolean {
+    const [area, group, serial] = match.split('-');
+    return area !== '000' && area !== '666' && area[0] !== '9' && group !== '00' && serial !== '0000';
+}
+
+/**
+ * Turkish identity numbers: 11 digits, no leading zero, two check digits
+ */
+function isTurkishIdValid(match: string): boolean {
+    const d = Array.from(match, Number);
+
+    if (d[0] === 0) {
+        return false;
+    }
+
+    const odd = d[0] + d[2] + d[4] + d[6] + d[8];
+    const even = d[1] + d[3] + d[5] + d[7];
+    const tenth = (((odd * 7 - even) % 10) + 10) % 10;
+    const eleventh = d.slice(0, 10).reduce((sum, digit) => sum + digit, 0) % 10;
+
+    return d[9] === tenth && d[10] === eleventh;
+}
+
+/**
+ * Detectors in the order they run. Tokens and emails go first so their digits are not
+ * mistaken for phone or card numbers.
+ */
+const DETECTORS: Detector[] = [
+    { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+    { kind: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+    { kind: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g, isValid: isIbanValid },
+    { kind: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, isValid: isLuhnValid },
+    { kind: 'national_id', pattern: /\b\d{3}-\d{2}-\d{4}\b/g, isValid: isSsnValid },
+    { kind: 'national_id', pattern: /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g }, // UK National Insurance number
+    { kind: 'national_id', pattern: /\b\d{11}\b/g, isValid: isTurkishIdValid },
+    // International numbers with a leading +, or North American (555) 123-4567 / 555-123-4567
+    { kind: 'phone', pattern: /\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}\b/g, isValid: match => digits(match).length >= 8 && digits(match).length <= 15 },
+    { kind: 'phone', pattern: /(?:\(\d{3}\) ?|\b\d{3}[ .-])\d{3}[ .-]\d{4}\b/g }
+];
+
+/**
+ * Whether a field's values are scanned. Types from extension schemas are named schema-qualified,
+ * e.g. `ext.citext`, so the schema is dropped before matching.
+ */
+function isScanned(field: FieldInfo): boolean {
+    const type = field.baseType ?? (field.isArray ? field.elementType : field.type);
+    return type !== undefined && SCANNED_TYPES.includes(type.slice(type.lastIndexOf('.') + 1));
+}
+
+/**
+ * Scans result values for personal data and masks every match with the configured strategy
+ */
+export class PiiScanner {
+    private detectors: Detector[];
+
+    constructor(
+        private strategy: PiiStrategy,
+        kinds: PiiKind[] = PII_KINDS,
+        private hashSecret?: string
+    ) {
+        this.detectors = DETECTORS.filter(detector => kinds.includes(detector.kind));
+    }
+
+    /**
+     * Returns the result with masked values and a note of the columns that were masked, and why
+     */
+    scanResult(result: QueryResult): QueryResult {
+        const fields = result.fields.filter(isScanned);
+
+        if (fields.length === 0 || result.rows.length === 0) {
+            return result;
+        }
+
+        const found = new Map<string, { kinds: Set<PiiKind>; values: number }>();
+
+        const rows = result.rows.map(row => {
+            const masked = { ...row };
+
+            for (const field of fields) {
+                const kinds = new Set<PiiKind>();
+                masked[field.name] = this.maskValue(row[field.name], kinds);
+
+                if (kinds.size > 0) {
+                    const entry = found.get(field.name) ?? { kinds: new Set<PiiKind>(), values: 0 };
+                    kinds.forEach(kind => entry.kinds.add(kind));
+                    entry.values++;
+                    found.set(field.name, entry);
+                }
+            }
+
+            return masked;
+        });
+
+        if (found.size === 0) {
+            return result;
+        }
+
+        const piiMasked: PiiMaskingInfo = {
+            strategy: this.strategy,
+            columns: Array.from(found, ([column, entry]) => ({
+                column,
+                kinds: PII_KINDS.filter(kind => entry.kinds.has(kind)),
+                values: entry.values
+            }))
+        };
+
+        return { ...result, rows, piiMasked };
+    }
+
+    /**
+     * Masks strings, including those nested in arrays and JSON values
+     */
+    private maskValue(value: unknown, kinds: Set<PiiKind>): unknown {
+        if (typeof value === 'string') {
+            return this.maskText(value, kinds);
+        }
+
+        if (Array.isArray(value)) {
+            return value.map(item => this.maskValue(item, kinds));
+        }
+
+        if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.maskValue(item, kinds)]));
+        }
+
+        return value;
+    }
+
+    private maskText(text: string, kinds: Set<PiiKind>): string {
+        let masked = text;
+
+        for (const detector of this.detectors) {
+            masked = masked.replace(detector.pattern, match => {
+                if (detector.isValid && !detector.isValid(match)) {
+                    return match;
+                }
+
+                kinds.add(detector.kind);
+                return this.replacement(detector.kind, match);
+            });
+        }
+
+        return masked;
+    }
+
+    private replacement(kind: PiiKind, match: string): string {
+        switch (this.strategy) {
+            case 'redact':
+                return REDACTED_VALUE;
+
+            case 'partial':
+                return partialMask(kind, match);
+
+            case 'hash': {
+                // Normalized first, so `John@Example.com` and `john@example.com` or differently spaced numbers agree
+                const normalized = kind === 'email' ? match.toLowerCase() : match.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+                const digest = this.hashSecret
+                    ? createHmac('sha256', this.hashSecret).update(normalized).digest('hex')
+                    : createHash('sha256').update(normalized).digest('hex');
+
+                return `${kind}_${digest.slice(0, HASH_LENGTH)}`;
+            }
+        }
+    }
+}
+
+/**
+ * Keeps the first character and domain of an email, the header marker of a token,
+ * and the last four characters of numbers, with separators left in place
+ */
+function partialMask(kind: PiiKind, match: string): string {
+    if (kind === 'email') {
+        const at = match.lastIndexOf('@');
+        return `${match[0]}***${match.slice(at)}`;
+    }
+
+    if (kind === 'jwt') {
+        return 'eyJ***';
+    }
+
+    let keep = 4;
+
+    return Array.from(match).reverse().map(char => {
+        if (!/[A-Za-z0-9]/.test(char)) {
+            return char;
+        }
+
+        return keep-- > 0 ? char : '*';
+    }).reverse().join('');
+}
+
+/**
+ * Creates the scanner configured by PII_MASKING, PII_DETECTORS and PII_HASH_SECRET,
+ * or null when PII_MASKING is unset or `off`
+ */
+export function loadPiiScanner(): PiiScanner | null {
+    const strategy = (process.env.PII_MASKING || 'off').trim().toLowerCase();
+
+    if (strategy === 'off') {
+        return null;
+    }
+
+    if (!(PII_STRATEGIES as string[]).includes(strategy)) {
+        throw new Error(`Invalid PII_MASKING "${strategy}". Allowed values: off, ${PII_STRATEGIES.join(', ')}`);
+    }
+
+    const kinds = process.env.PII_DETECTORS
+        ? process.env.PII_DETECTORS.split(',').map(kind => kind.trim()).filter(Boolean)
+        : PII_KINDS;
+    const unknown = kinds.filter(kind => !(PII_KINDS as string[]).includes(kind));
+
+    if (unknown.length > 0) {
+        throw new Error(`Invalid PII_DETECTORS value "${unknown.join(', ')}". Allowed values: ${PII_KINDS.join(', ')}`);
+    }
+
+    return new PiiScanner(strategy as PiiStrategy, kinds as PiiKind[], process.env.PII_HASH_SECRET || undefined);
+}
@@ -0,0 +1,277 @@
+/**
+ * MCP Prompts Module
+ *
+ * Built-in prompt templates for common investigation workflows. Each prompt
+ * pre-fills its message with context gathered from describe_table,
+ * show_relations and preview_data.
+ *
+ * @module prompts
+ */
+
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { ConnectionManager, DatabaseType } from './connection-manager.js';
+import { describeTable } from './tools/describe-table.js';
+import { showRelations } from './tools/show-relations.js';
+import { previewData } from './tools/preview-data.js';
+import { formatResult } from './result-formatter.js';
+
+// Sample sizes kept small so prompts stay within a reasonable context budget
+const SAMPLE_ROWS = 5;
+const COLUMN_SAMPLE_ROWS = 20;
+
+const DATABASE_ARGUMENT = {
+    name: 'database',
+    description: 'Database target. Defaults to the default database.',
+    required: false
+};
+
+const SCHEMA_ARGUMENT = {
+    name: 'schema',
+    description: 'Schema containing the table. Defaults to "public".',
+    required: false
+};
+
+/**
+ * Prompt definitions advertised by prompts/list
+ */
+export const PROMPT_DEFINITIONS: Prompt[] = [
+    {
+        name: 'explore_table',
+        description: 'Explore a table: its columns, keys, relationships and sample rows.',
+        arguments: [
+            { name: 'table', description: 'Table to explore.', required: true },
+            SCHEMA_ARGUMENT,
+            DATABASE_ARGUMENT
+        ]
+    },
+    {
+        name: 'investigate_column_quality',
+        description: 'Investigate data-quality issues in a column: nulls, duplicates, outliers, invalid formats and orphaned references.',
+        arguments: [
+            { name: 'table', description: 'Table containing the column.', required: true },
+            { name: 'column', description: 'Column to investigate.', required: true },
+            SCHEMA_ARGUMENT,
+            DATABASE_ARGUMENT
+        ]
+    },
+    {
+        name: 'write_report_query',
+        description: 'Write a read-only report query for a metric, based on the definitions of the tables involved.',
+        arguments: [
+            { name: 'metric', description: 'Metric to report, e.g. "monthly revenue per customer".', required: true },
+            { name: 'tables', description: 'Comma-separated tables the metric is computed from.', required: true },
+            SCHEMA_ARGUMENT,
+            DATABASE_ARGUMENT
+        ]
+    },
+    {
+        name: 'compare_table_across_databases',
+        description: 'Compare a table between two databases: schema differences, row counts and sample data.',
+        arguments: [
+            { name: 'table', description: 'Table to compare.', required: true },
+            SCHEMA_ARGUMENT,
+            { name: 'source', description: 'First database. Defaults to the default database.', required: false },
+            { name: 'target', description: 'Second database. Defaults to the first other configured database.', required: false }
+        ]
+    }
+];
+
+function requireArgument(args: Record<string, string>, name: string): string {
+    const value = args[name]?.trim();
+
+    if (!value) {
+        throw new Error(`Missing required argument: ${name}`);
+    }
+
+    return value;
+}
+
+function resolveDatabase(connectionManager: ConnectionManager, value: string | undefined): DatabaseType {
+    if (!value) {
+        return connectionManager.getDefaultDatabase();
+    }
+
+    if (!connectionManager.hasDatabase(value)) {
+        const allowed = connectionManager.getDatabaseNames().join(', ');
+        throw new Error(`Invalid database "${value}". Allowed values: ${allowed}`);
+    }
+
+    return value;
+}
+
+function jsonBlock(value: unknown): string {
+    return '```json\n' + JSON.stringify(value, null, 2) + '\n```';
+}
+
+async function sampleRows(
+    connectionManager: ConnectionManager,
+    database: DatabaseType,
+    schema: string,
+    table: string,
+    limit: number,
+    columns?: string[]
+): Promise<string> {
+    const result = await previewData(connectionManager, { database, schema, table, columns, limit });
+    return formatResult(result, 'markdown')[0];
+}
+
+async function exploreTable(connectionManager: ConnectionManager, args: Record<string, string>): Promise<string> {
+    const table = requireArgument(args, 'table');
+    const schema = args.schema || 'public';
+    const database = resolveDatabase(connectionManager, args.database);
+
+    const description = await describeTable(connectionManager, { database, schema, table });
+    const relations = await showRelations(connectionManager, { database, schema, table });
+    const sample = await sampleRows(connectionManager, database, schema, table, SAMPLE_ROWS);
+
+    return [
+        `Explore the table "${schema}.${table}" in database "${database}".`,
+        'Explain what the table represents, what each column means, how it relates to other tables, '
+            + 'and which columns are most useful for filtering and joining. Point out anything unusual in the sample rows. '
+            + 'Use run_query for follow-up read-only queries if needed.',
+        '## Definition',
+        jsonBlock(description),
+        '## Relationships',
+        relations.length > 0 ? jsonBlock(relations) : 'No foreign key relationships.',
+        `## Sample rows (first ${SAMPLE_ROWS})`,
+        sample
+    ].join('\n\n');
+}
+
+async function investigateColumnQuality(connectionManager: ConnectionManager, args: Record<string, string>): Promise<string> {
+    const table = requireArgument(args, 'table');
+    const column = requireArgument(args, 'column');
+    const schema = args.schema || 'public';
+    const database = resolveDatabase(connectionManager, args.database);
+
+    const description = await describeTable(connectionManager, { database, schema, table });
+    const columnInfo = description.columns.find(info => info.name === column);
+
+    if (!columnInfo) {
+        throw new Error(`Column "${column}" not found in table "${schema}.${table}"`);
+    }
+
+    const relations = await showRelations(connectionManager, { database, schema, table });
+    const columnRelations = relations.filter(relation =>
+        relation.direction === 'outgoing'
+            ? relation.columns.some(pair => pair.column === column)
+            : relation.columns.some(pair => pair.referencedColumn === column)
+    );
+    const sample = await sampleRows(connectionManager, database, schema, table, COLUMN_SAMPLE_ROWS, [column]);
+
+    return [
+        `Investigate data-quality issues in column "${column}" of "${schema}.${table}" in database "${database}".`,
+        'Using read-only queries with run_query, check for: the null rate, empty or whitespace-only values, duplicates '
+            + '(especially if the column should be unique), values outside the expected range or format for its type, '
+            + 'outliers, and, for foreign key columns, values with no matching referenced row. '
+            + 'Report each issue with counts and example values, and suggest likely causes.',
+        '## Column',
+        jsonBlock(columnInfo),
+        '## Table definition',
+        jsonBlock(description),
+        '## Foreign keys on this column',
+        columnRelations.length > 0 ? jsonBlock(columnRelations) : 'None.',
+        `## Sample values (first ${COLUMN_SAMPLE_ROWS})`,
+        sample
+    ].join('\n\n');
+}
+
+async function writeReportQuery(connectionManager: ConnectionManager, args: Record<string, string>): Promise<string> {
+    const metric = requireArgument(args, 'metric');
+    const tables = requireArgument(args, 'tables').split(',').map(name => name.trim()).filter(Boolean);
+    const schema = args.schema || 'public';
+    const database = resolveDatabase(connectionManager, args.database);
+
+    const sections: string[] = [
+        `Write a read-only SQL report query for the metric "${metric}" in database "${database}".`,
+        'Use only SELECT (CTEs are fine). Join tables through the foreign keys listed below, state any assumptions about '
+            + 'how the metric is defined, and use $1..$n placeholders for values such as date ranges. '
+            + 'Run the query with run_query and check the result for plausibility; use explain_query if it may be slow.'
+    ];
+
+    for (const table of tables) {
+        const description = await describeTable(connectionManager, { database, schema, table });
+        const relations = await showRelations(connectionManager, { database, schema, table });
+
+        sections.push(
+            `## ${schema}.${table}`,
+            jsonBlock(description),
+            relations.length > 0 ? `Relationships:\n\n${jsonBlock(relations)}` : 'No foreign key relationships.'
+        );
+    }
+
+    return sections.join('\n\n');
+}
+
+async function compareTableAcrossDatabases(connectionManager: ConnectionManager, args: Record<string, string>): Promise<string> {
+    const table = requireArgument(args, 'table');
+    const schema = args.schema || 'public';
+    const source = resolveDatabase(connectionManager, args.source);
+    const target = args.target
+        ? resolveDatabase(connectionManager, args.target)
+        : connectionManager.getDatabaseNames().find(name => name !== source);
+
+    if (!target || target === source) {
+        throw new Error('Comparing requires two different databases. Configure a second database or pass "target".');
+    }
+
+    const sections: string[] = [
+        `Compare the table "${schema}.${table}" between databases "${source}" and "${target}".`,
+        'List schema differences (columns, types, nullability, defaults, keys, indexes). Then compare the data with '
+            + `compare_table_data (source "${source}", target "${target}"), which reports row counts, per-column aggregates `
+            + 'and differing rows; use run_query against each database for follow-up checks. '
+            + 'Summarize which side is ahead or inconsistent and give example keys for each difference.'
+    ];
+
+    for (const database of [source, target]) {
+        const description = await describeTable(connectionManager, { database, schema, table });
+        const sample = await sampleRows(connectionManager, database, schema, table, SAMPLE_ROWS);
+
+        sections.push(
+            `## ${database}: definition`,
+            jsonBlock(description),
+            `## ${database}: sample rows (first ${SAMPLE_ROWS})`,
+            sample
+        );
+    }
+
+    return sections.join('\n\n');
+}
+
+const PROMPT_BUILDERS: Record<string, (connectionManager: ConnectionManager, args: Record<string, string>) => Promise<string>> = {
+    explore_table: exploreTable,
+    investigate_column_quality: investigateColumnQuality,
+    write_report_query: writeReportQuery,
+    compare_table_across_databases: compareTableAcrossDatabases
+};
+
+/**
+ * Builds the messages of a prompt, gathering its context from the database
+ */
+export async function getPrompt(
+    connectionManager: ConnectionManager,
+    name: string,
+    args: Record<string, string> = {}
+): Promise<GetPromptResult> {
+    const builder = PROMPT_BUILDERS[name];
+
+    if (!builder) {
+        throw new Error(`Unknown prompt: ${name}. Available prompts: ${Object.keys(PROMPT_BUILDERS).join(', ')}`);
+    }
+
+    const definition = PROMPT_DEFINITIONS.find(prompt => prompt.name === name);
+    const text = await builder(connectionManager, args);
+
+    return {
+        description: definition?.description,
+        messages: [
+            {
+                role: 'user',
+                content: {
+                    type: 'text',
+                    text
+                }
+            }
+        ]
+    };
+}
@@ -1,37 +1,19 @@
 /**
  * Query Validator Module
- * 
+ *
  * Validates SQL queries to ensure only read-only operations are allowed.
- * Prevents SQL injection and data modification attempts.
- * 
+ * Queries are parsed with the real PostgreSQL grammar (libpg_query) and the
+ * resulting AST is walked, including CTEs and subqueries, so that string
+ * literals, quoted identifiers and function names never cause false positives.
+ *
  * @module query-validator
  */
 
+import { loadModule, parseSync, hasSqlDetails } from 'libpg-query';
 import { ValidationResult } from './types.js';
 
-/**
- * List of forbidden SQL keywords that indicate data modification
- */
-export const FORBIDDEN_KEYWORDS = [
-    'INSERT',
-    'UPDATE',
-    'DELETE',
-    'DROP',
-    'ALTER',
-    'TRUNCATE',
-    'CREATE',
-    'REPLACE',
-    'GRANT',
-    'REVOKE',
-    'LOCK',
-    // 'UNLOCK' // UNLOCK is not a keyword in Postgres in the same way, but LOCK is.
-    // Postgres specific administrative commands can be added if needed, but these cover the basics.
-    'COPY', // COPY TO/FROM can be used for data export/import, often restricted but good to block.
-    'VACUUM',
-    'ANALYZE',
-    'REINDEX',
-    'CLUSTER'
-] as const;
+// The parser is compiled to WebAssembly and must be loaded before parseSync is usable
+await loadModule();
 
 /**
  * List of allowed SQL statement types (strict read-only mode)
@@ -39,75 +21,197 @@ export const FORBIDDEN_KEYWORDS = [
 export const ALLOWED_STATEMENTS = ['SELECT'] as const;
 
 /**
- * Function patterns that can be abused for denial-of-service or file/network access
+ * Statement nodes that modify data and are rejected wherever they appear,
+ * including inside CTEs (`WITH x AS (DELETE ... RETURNING *) SELECT ...`)
  */
-const BLOCKED_FUNCTION_PATTERNS = [
-    /\bpg_sleep\s*\(/i,
-    /\bdblink\s*\(/i,
-    /\bpg_read_file\s*\(/i,
-    /\bpg_read_binary_file\s*\(/i,
-    /\bpg_ls_dir\s*\(/i,
-    /\blo_export\s*\(/i,
-    /\bcopy\s*\(/i
+export const MODIFYING_STATEMENTS = [
+    'InsertStmt',
+    'UpdateStmt',
+    'DeleteStmt',
+    'MergeStmt'
 ] as const;
 
-type AllowedStatement = typeof ALLOWED_STATEMENTS[number];
+/**
+ * Functions that can be abused for denial-of-service, file/network access or side effects
+ */
+export const BLOCKED_FUNCTIONS = [
+    'pg_sleep',
+    'pg_sleep_for',
+    'pg_sleep_until',
+    'dblink',
+    'dblink_exec',
+    'dblink_connect',
+    'pg_read_file',
+    'pg_read_binary_file',
+    'pg_ls_dir',
+    'pg_stat_file',
+    'lo_import',
+    'lo_export',
+    'pg_terminate_backend',
+    'pg_cancel_backend',
+    'pg_reload_conf',
+    'set_config',
+    'nextval',
+    'setval',
+    'pg_advisory_lock',
+    'pg_advisory_xact_lock',
+    'pg_try_advisory_lock',
+    'pg_try_advisory_xact_lock'
+] as const;
 
 /**
- * Normalizes a query by removing comments and extra whitespace
+ * Statement keywords reported for common rejected top-level statements
  */
-function normalizeQuery(query: string): string {
-    return query
-        // Remove single-line comments (both -- and # for some dialects, Postgres uses --)
-        .replace(/--.*$/gm, '')
-        // Remove multi-line comments
-        .replace(/\/\*[\s\S]*?\*\//g, '')
-        // Normalize whitespace
-        .replace(/\s+/g, ' ')
-        .trim();
+const STATEMENT_KEYWORDS: Record<string, string> = {
+    InsertStmt: 'INSERT',
+    UpdateStmt: 'UPDATE',
+    DeleteStmt: 'DELETE',
+    MergeStmt: 'MERGE',
+    CreateStmt: 'CREATE TABLE',
+    CreateTableAsStmt: 'CREATE TABLE AS',
+    ViewStmt: 'CREATE VIEW',
+    IndexStmt: 'CREATE INDEX',
+    DropStmt: 'DROP',
+    AlterTableStmt: 'ALTER TABLE',
+    TruncateStmt: 'TRUNCATE',
+    GrantStmt: 'GRANT/REVOKE',
+    LockStmt: 'LOCK',
+    CopyStmt: 'COPY',
+    VacuumStmt: 'VACUUM/ANALYZE',
+    ReindexStmt: 'REINDEX',
+    ClusterStmt: 'CLUSTER',
+    ExplainStmt: 'EXPLAIN',
+    TransactionStmt: 'TRANSACTION',
+    VariableSetStmt: 'SET',
+    VariableShowStmt: 'SHOW',
+    DoStmt: 'DO',
+    CallStmt: 'CALL'
+};
+
+export type AstNode = Record<string, unknown>;
+
+/**
+ * A rejected AST node together with its byte offset in the query
+ */
+interface Violation {
+    node: string;
+    message: string;
+    location?: number;
 }
 
 /**
- * Extracts the first keyword from a normalized query
+ * Converts a UTF-8 byte offset reported by the parser into a character offset
  */
-function getFirstKeyword(normalizedQuery: string): string {
-    const match = normalizedQuery.match(/^(\w+)/i);
-    return match ? match[1].toUpperCase() : '';
+function byteOffsetToCharOffset(query: string, byteOffset: number): number {
+    return Buffer.from(query, 'utf8').subarray(0, byteOffset).toString('utf8').length;
 }
 
 /**
- * Checks whether a query contains multiple SQL statements
+ * Formats a character offset as a human-readable line/column suffix
  */
-function containsMultipleStatements(normalizedQuery: string): boolean {
-    const withoutTrailingSemicolon = normalizedQuery.replace(/;\s*$/, '');
-    return withoutTrailingSemicolon.includes(';');
+function describePosition(query: string, position: number): string {
+    const before = query.slice(0, position);
+    const line = before.split('\n').length;
+    const column = position - before.lastIndexOf('\n');
+
+    return ` (at line ${line}, column ${column})`;
+}
+
+export function isNode(value: unknown): value is AstNode {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
 /**
- * Checks if a query contains any forbidden keywords
- * Uses word boundary matching to avoid false positives
+ * Finds the first location recorded on a node or any of its descendants
  */
-function containsForbiddenKeyword(normalizedQuery: string): string | null {
-    const upperQuery = normalizedQuery.toUpperCase();
+function findLocation(value: unknown): number | undefined {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            const location = findLocation(item);
+
+            if (location !== undefined) {
+                return location;
+            }
+        }
+
+        return undefined;
+    }
+
+    if (!isNode(value)) {
+        return undefined;
+    }
+
+    if (typeof value.location === 'number' && value.location >= 0) {
+        return value.location;
+    }
+
+    for (const child of Object.values(value)) {
+        const location = findLocation(child);
 
-    for (const keyword of FORBIDDEN_KEYWORDS) {
-        // Use word boundary regex to match whole words only
-        const regex = new RegExp(`\\b${keyword}\\b`, 'i');
-        if (regex.test(upperQuery)) {
-            return keyword;
+        if (location !== undefined) {
+            return location;
         }
     }
 
-    return null;
+    return undefined;
+}
+
+/**
+ * Extracts the unqualified function name from a FuncCall node
+ */
+export function getFunctionName(funcCall: AstNode): string {
+    const parts = Array.isArray(funcCall.funcname) ? funcCall.funcname : [];
+    const last = parts[parts.length - 1];
+
+    if (isNode(last) && isNode(last.String) && typeof last.String.sval === 'string') {
+        return last.String.sval.toLowerCase();
+    }
+
+    return '';
 }
 
 /**
- * Checks if a query contains blocked function calls
+ * Inspects a single typed AST node (e.g. `{ SelectStmt: {...} }`) and returns a violation if it is not allowed
  */
-function containsBlockedFunction(normalizedQuery: string): string | null {
-    for (const pattern of BLOCKED_FUNCTION_PATTERNS) {
-        if (pattern.test(normalizedQuery)) {
-            return pattern.source;
+function checkNode(type: string, body: AstNode, enclosingLocation: number | undefined): Violation | null {
+    const location = findLocation(body) ?? enclosingLocation;
+
+    if ((MODIFYING_STATEMENTS as readonly string[]).includes(type)) {
+        return {
+            node: type,
+            message: `Contains data-modifying statement ${STATEMENT_KEYWORDS[type]}. Data modification is not allowed.`,
+            location
+        };
+    }
+
+    if (type === 'SelectStmt') {
+        if (body.intoClause) {
+            return {
+                node: 'IntoClause',
+                message: 'SELECT INTO creates a table and is not allowed.',
+                location: findLocation(body.intoClause) ?? location
+            };
+        }
+
+        if (Array.isArray(body.lockingClause) && body.lockingClause.length > 0) {
+            return {
+                node: 'LockingClause',
+                message: 'Row-locking clauses (FOR UPDATE / FOR SHARE) are not allowed.',
+                // Only `FOR UPDATE OF <table>` records a location; otherwise point at the enclosing statement
+                location: findLocation(body.lockingClause) ?? enclosingLocation ?? location
+            };
+        }
+    }
+
+    if (type === 'FuncCall') {
+        const functionName = getFunctionName(body);
+
+        if ((BLOCKED_FUNCTIONS as readonly string[]).includes(functionName)) {
+            return {
+                node: 'FuncCall',
+                message: `Contains blocked function call '${functionName}'. This is not allowed in strict mode.`,
+                location
+            };
         }
     }
 
@@ -115,51 +219,118 @@ function containsBlockedFunction(normalizedQuery: string): string | null {
 }
 
 /**
- * Checks if a query is read-only (strict mode)
- * 
- * @param query - The SQL query to validate
- * @returns true if the query is read-only, false otherwise
+ * Recursively walks the AST (CTEs, subqueries, expressions) and returns the first violation found
  */
-export function isReadOnly(query: string): boolean {
-    if (!query || typeof query !== 'string') {
-        return false;
+function findViolation(value: unknown, enclosingLocation?: number): Violation | null {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            const violation = findViolation(item, enclosingLocation);
+
+            if (violation) {
+                return violation;
+            }
+        }
+
+        return null;
+    }
+
+    if (!isNode(value)) {
+        return null;
+    }
+
+    const location = typeof value.location === 'number' && value.location >= 0
+        ? value.location
+        : enclosingLocation;
+
+    for (const [key, child] of Object.entries(value)) {
+        // Typed nodes are wrapped as { TypeName: { ...fields } }
+        if (/^[A-Z]/.test(key) && isNode(child)) {
+            const violation = checkNode(key, child, location);
+
+            if (violation) {
+                return violation;
+            }
+        }
+
+        const violation = findViolation(child, location);
+
+        if (violation) {
+            return violation;
+        }
     }
 
-    const normalizedQuery = normalizeQuery(query);
+    return null;
+}
+
+/**
+ * Collects the numbers of all `$n` placeholders (ParamRef nodes) in the AST
+ */
+function collectPlaceholders(value: unknown, placeholders: Set<number>): void {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            collectPlaceholders(item, placeholders);
+        }
 
-    if (!normalizedQuery) {
-        return false;
+        return;
     }
 
-    if (containsMultipleStatements(normalizedQuery)) {
-        return false;
+    if (!isNode(value)) {
+        return;
     }
 
-    // Check if query starts with an allowed statement
-    const firstKeyword = getFirstKeyword(normalizedQuery);
-    const isAllowedStatement = ALLOWED_STATEMENTS.includes(firstKeyword as AllowedStatement);
+    for (const [key, child] of Object.entries(value)) {
+        if (key === 'ParamRef' && isNode(child) && typeof child.number === 'number') {
+            placeholders.add(child.number);
+        }
+
+        collectPlaceholders(child, placeholders);
+    }
+}
 
-    if (!isAllowedStatement) {
-        return false;
+/**
+ * Formats a rejection message, with the line and column of the parser byte offset when known
+ */
+export function rejectionMessage(query: string, message: string, byteLocation?: number): string {
+    if (byteLocation === undefined || byteLocation < 0) {
+        return `Query rejected: ${message}`;
     }
 
-    // Check for forbidden keywords anywhere in the query
-    const forbiddenKeyword = containsForbiddenKeyword(normalizedQuery);
+    return `Query rejected: ${message}${describePosition(query, byteOffsetToCharOffset(query, byteLocation))}`;
+}
+
+/**
+ * Builds a rejected ValidationResult with the offending node and position
+ */
+function reject(query: string, message: string, node?: string, byteLocation?: number): ValidationResult {
+    const error = rejectionMessage(query, message, byteLocation);
 
-    if (forbiddenKeyword !== null) {
-        return false;
+    if (byteLocation === undefined) {
+        return { valid: false, error, node };
     }
 
-    const blockedFunction = containsBlockedFunction(normalizedQuery);
+    return {
+        valid: false,
+        error,
+        node,
+        position: byteOffsetToCharOffset(query, byteLocation)
+    };
+}
 
-    return blockedFunction === null;
+/**
+ * Checks if a query is read-only (strict mode)
+ *
+ * @param query - The SQL query to validate
+ * @returns true if the query is read-only, false otherwise
+ */
+export function isReadOnly(query: string): boolean {
+    return validate(query).valid;
 }
 
 /**
  * Validates a query and returns detailed validation result
- * 
+ *
  * @param query - The SQL query to validate
- * @returns ValidationResult with valid status, error message, and query type
+ * @returns ValidationResult with valid status, error message, query type and offending node/position
  */
 export function validate(query: string): ValidationResult {
     // Check for empty or invalid input
@@ -170,55 +341,71 @@ export function validate(query: string): ValidationResult {
         };
     }
 
-    const normalizedQuery = normalizeQuery(query);
+    let statements: { stmt?: unknown; stmt_location?: number }[];
+
+    try {
+        statements = parseSync(query).stmts ?? [];
+    } catch (error) {
+        if (hasSqlDetails(error) && error.sqlDetails) {
+            const position = Math.min(error.sqlDetails.cursorPosition, query.length);
+
+            return {
+                valid: false,
+                error: `Query rejected: Syntax error: ${error.sqlDetails.message}${describePosition(query, position)}`,
+                position
+            };
+        }
 
-    if (!normalizedQuery) {
         return {
             valid: false,
-            error: 'Query cannot be empty or contain only whitespace/comments'
+            error: `Query rejected: Syntax error: ${(error as Error).message}`
         };
     }
 
-    if (containsMultipleStatements(normalizedQuery)) {
+    if (statements.length === 0) {
         return {
             valid: false,
-            error: 'Query rejected: Multiple SQL statements are not allowed'
+            error: 'Query cannot be empty or contain only whitespace/comments'
         };
     }
 
-    // Get the first keyword to determine query type
-    const firstKeyword = getFirstKeyword(normalizedQuery);
-
-    // Check if it's an allowed statement type
-    if (!ALLOWED_STATEMENTS.includes(firstKeyword as AllowedStatement)) {
-        return {
-            valid: false,
-            error: `Query rejected: Only ${ALLOWED_STATEMENTS.join(', ')} statements are allowed. Found: ${firstKeyword || 'unknown'}`
-        };
+    if (statements.length > 1) {
+        return reject(
+            query,
+            'Multiple SQL statements are not allowed',
+            undefined,
+            statements[1].stmt_location ?? 0
+        );
     }
 
-    // Check for forbidden keywords
-    const forbiddenKeyword = containsForbiddenKeyword(normalizedQuery);
+    const statement = statements[0].stmt;
+    const statementType = isNode(statement) ? Object.keys(statement)[0] : undefined;
 
-    if (forbiddenKeyword) {
-        return {
-            valid: false,
-            error: `Query rejected: Contains forbidden keyword '${forbiddenKeyword}'. Data modification is not allowed.`
-        };
+    // Check if it's an allowed statement type
+    if (!statement || statementType !== 'SelectStmt') {
+        const found = statementType ? STATEMENT_KEYWORDS[statementType] ?? statementType : 'unknown';
+
+        return reject(
+            query,
+            `Only ${ALLOWED_STATEMENTS.join(', ')} statements are allowed. Found: ${found}`,
+            statementType,
+            statements[0].stmt_location ?? 0
+        );
     }
 
-    const blockedFunction = containsBlockedFunction(normalizedQuery);
+    const violation = findViolation(statement, statements[0].stmt_location ?? 0);
 
-    if (blockedFunction) {
-        return {
-            valid: false,
-            error: 'Query rejected: Contains blocked function call. This is not allowed in strict mode.'
-        };
+    if (violation) {
+        return reject(query, violation.message, violation.node, violation.location);
     }
 
+    const placeholders = new Set<number>();
+    collectPlaceholders(statement, placeholders);
+
     return {
         valid: true,
-        queryType: firstKeyword as ValidationResult['queryType']
+        queryType: 'SELECT',
+        placeholders: Array.from(placeholders).sort((a, b) => a - b)
     };
 }
 
@@ -0,0 +1,381 @@
+/**
+ * Rate Limiter Module
+ *
+ * Limits how hard the client can drive each database: calls per minute, concurrent calls,
+ * rows returned and statement execution time within a rolling window. Limits are set per
+ * database target and optionally per tool in RATE_LIMITS_FILE.
+ *
+ * @module rate-limiter
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { readFileSync } from 'node:fs';
+import type { DatabaseType } from './connection-manager.js';
+
+/**
+ * Limits for one database, or one tool on a database. Unset limits are not enforced.
+ */
+export interface RateLimits {
+    queriesPerMinute?: number; // Tool calls started in the last 60 seconds
+    concurrentQueries?: number; // Tool calls running at the same time
+    rowsPerWindow?: number; // Rows returned by statements in the last `windowSeconds`
+    executionMsPerWindow?: number; // Statement execution time in the last `windowSeconds`
+}
+
+interface DatabaseRateLimits extends RateLimits {
+    tools?: Record<string, RateLimits>;
+}
+
+/**
+ * Shape of a RATE_LIMITS_FILE. Top-level limits apply to each database separately and
+ * `tools` limits to each tool on each database; `databases` overrides both for one database.
+ */
+interface RateLimitsFile extends DatabaseRateLimits {
+    windowSeconds?: number; // Rolling window for the row and execution time budgets (default 3600)
+    databases?: Record<string, DatabaseRateLimits>;
+}
+
+/**
+ * Why a call was refused, and when to try again
+ */
+export interface RateLimitDenial {
+    message: string;
+    retryAfterSeconds: number;
+}
+
+interface Usage {
+    time: number;
+    rows: number;
+    durationMs: number;
+}
+
+/**
+ * Counters for one database, or one tool on a database
+ */
+interface Bucket {
+    scope: string; // For messages, e.g. 'database "db"' or 'run_query on database "db"'
+    limits: RateLimits;
+    starts: number[]; // Start times of calls in the last minute
+    usage: Usage[]; // Statements in the last window
+    running: number;
+}
+
+const LIMIT_KEYS = ['queriesPerMinute', 'concurrentQueries', 'rowsPerWindow', 'executionMsPerWindow'] as const;
+
+const DEFAULT_WINDOW_SECONDS = 3600;
+
+const MINUTE_MS = 60000;
+
+/**
+ * Tools that only release resources and are never limited
+ */
+const UNLIMITED_TOOLS = ['close_cursor'];
+
+function hasLimits(limits: RateLimits): boolean {
+    return LIMIT_KEYS.some(key => limits[key] !== undefined);
+}
+
+function pick(limits: RateLimits | undefined): RateLimits {
+    return Object.fromEntries(LIMIT_KEYS.filter(key => limits?.[key] !== undefined).map(key => [key, limits![key]]));
+}
+
+function formatDuration(seconds: number): string {
+    if (seconds % 3600 === 0) {
+        return seconds === 3600 ? 'hour' : `${seconds / 3600} hours`;
+    }
+
+    if (seconds % 60 === 0) {
+        return seconds === 60 ? 'minute' : `${seconds / 60} minutes`;
+    }
+
+    return `${seconds} seconds`;
+}
+
+function retryAfter(seconds: number): string {
+    return `Retry after ${seconds} second${seconds === 1 ? '' : 's'}.`;
+}
+
+/**
+ * Tracks tool calls and statement usage per database and per tool, and refuses calls over a limit.
+ * State lives in the server process, so limits apply to the one client it serves.
+ */
+export class RateLimiter {
+    private buckets: Map<string, Bucket | null> = new Map();
+    // Tool of the call the current async context belongs to
+    private context = new AsyncLocalStorage<string>();
+    private windowMs: number;
+
+    constructor(private file: RateLimitsFile = {}) {
+        this.windowMs = (file.windowSeconds ?? DEFAULT_WINDOW_SECONDS) * 1000;
+    }
+
+    /**
+     * Returns why a call to `tool` on `databases` would exceed a limit, or null if it may run
+     */
+    check(tool: string, databases: DatabaseType[]): RateLimitDenial | null {
+        if (UNLIMITED_TOOLS.includes(tool)) {
+            return null;
+        }
+
+        const now = Date.now();
+
+        for (const bucket of this.bucketsFor(tool, databases)) {
+            const denial = this.checkBucket(bucket, now);
+
+            if (denial) {
+                return denial;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Runs a call, counting it against the limits of `tool` on `databases` while it runs
+     */
+    async run<T>(tool: string, databases: DatabaseType[], call: () => Promise<T>): Promise<T> {
+        if (UNLIMITED_TOOLS.includes(tool)) {
+            return call();
+        }
+
+        const buckets = this.bucketsFor(tool, databases);
+        const now = Date.now();
+
+        for (const bucket of buckets) {
+            bucket.starts.push(now);
+            bucket.running++;
+        }
+
+        try {
+            return await this.context.run(tool, call);
+        } finally {
+            for (const bucket of buckets) {
+                bucket.running--;
+            }
+        }
+    }
+
+    /**
+     * Charges a statement's rows and execution time to the call in progress.
+     * Statements sent outside a tool call, such as schema refreshes, are free.
+     */
+    recordUsage(database: DatabaseType, rows: number, durationMs: number): void {
+        const tool = this.context.getStore();
+
+        if (tool === undefined) {
+            return;
+        }
+
+        for (const bucket of this.bucketsFor(tool, [database])) {
+            bucket.usage.push({ time: Date.now(), rows, durationMs });
+        }
+    }
+
+    private bucketsFor(tool: string, databases: DatabaseType[]): Bucket[] {
+        return Array.from(new Set(databases)).flatMap(database => [
+            this.getBucket(database, null),
+            this.getBucket(database, tool)
+        ]).filter((bucket): bucket is Bucket => bucket !== null);
+    }
+
+    /**
+     * Returns the counters for a database (`tool` null) or a tool on it, or null if it has no limits
+     */
+    private getBucket(database: DatabaseType, tool: string | null): Bucket | null {
+        const key = tool === null ? database : `${database}\0${tool}`;
+
+        if (!this.buckets.has(key)) {
+            const overrides = this.file.databases?.[database];
+            const limits = tool === null
+                ? { ...pick(this.file), ...pick(overrides) }
+                : { ...pick(this.file.tools?.[tool]), ...pick(overrides?.tools?.[tool]) };
+
+            this.buckets.set(key, hasLimits(limits)
+                ? {
+                    scope: tool === null ? `database "${database}"` : `${tool} on database "${database}"`,
+                    limits,
+                    starts: [],
+                    usage: [],
+                    running: 0
+                }
+                : null);
+        }
+
+        return this.buckets.get(key)!;
+    }
+
+    private checkBucket(bucket: Bucket, now: number): RateLimitDenial | null {
+        const { limits, scope } = bucket;
+
+        bucket.starts = bucket.starts.filter(time => time > now - MINUTE_MS);
+        bucket.usage = bucket.usage.filter(entry => entry.time > now - this.windowMs);
+
+        if (limits.concurrentQueries !== undefined && bucket.running >= limits.concurrentQueries) {
+            // Nothing to time; a running call usually finishes within the query timeout
+            return {
+                message: `Rate limit exceeded for ${scope}: ${bucket.running} of ${limits.concurrentQueries} concurrent queries are running. ${retryAfter(1)}`,
+                retryAfterSeconds: 1
+            };
+        }
+
+        if (limits.queriesPerMinute !== undefined && bucket.starts.length >= limits.queriesPerMinute) {
+            const seconds = this.secondsUntil(bucket.starts[bucket.starts.length - limits.queriesPerMinute] + MINUTE_MS, now);
+
+            return {
+                message: `Rate limit exceeded for ${scope}: ${limits.queriesPerMinute} queries per minute. ${retryAfter(seconds)}`,
+                retryAfterSeconds: seconds
+            };
+        }
+
+        const window = formatDuration(this.windowMs / 1000);
+
+        if (limits.rowsPerWindow !== undefined) {
+            const seconds = this.budgetRetry(bucket.usage, entry => entry.rows, limits.rowsPerWindow, now);
+
+            if (seconds !== null) {
+                return {
+                    message: `Row budget exhausted for ${scope}: ${limits.rowsPerWindow} rows per ${window}. ${retryAfter(seconds)}`,
+                    retryAfterSeconds: seconds
+                };
+            }
+        }
+
+        if (limits.executionMsPerWindow !== undefined) {
+            const seconds = this.budgetRetry(bucket.usage, entry => entry.durationMs, limits.executionMsPerWindow, now);
+
+            if (seconds !== null) {
+                return {
+                    message: `Execution time budget exhausted for ${scope}: ${limits.executionMsPerWindow} ms per ${window}. ${retryAfter(seconds)}`,
+                    retryAfterSeconds: seconds
+                };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns null while usage is under the budget, otherwise the seconds until enough of it
+     * leaves the window. A call that starts under the budget may finish above it.
+     */
+    private budgetRetry(usage: Usage[], amount: (entry: Usage) => number, budget: number, now: number): number | null {
+        let used = usage.reduce((sum, entry) => sum + amount(entry), 0);
+
+        if (used < budget) {
+            return null;
+        }
+
+        for (const entry of usage) {
+            used -= amount(entry);
+
+            if (used < budget) {
+                return this.secondsUntil(entry.time + this.windowMs, now);
+            }
+        }
+
+        return this.secondsUntil(now + this.windowMs, now);
+    }
+
+    private secondsUntil(time: number, now: number): number {
+        return Math.max(1, Math.ceil((time - now) / 1000));
+    }
+}
+
+function assertObject(value: unknown, path: string, scope: string): void {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error(`Rate limits file ${path}: ${scope} must be an object`);
+    }
+}
+
+/**
+ * Checks that every key of `limits` is a known limit with a positive integer value, or one of `otherKeys`
+ */
+function assertLimits(limits: unknown, path: string, scope: string, otherKeys: string[]): void {
+    assertObject(limits, path, scope);
+
+    for (const [key, value] of Object.entries(limits as object)) {
+        if (otherKeys.includes(key)) {
+            continue;
+        }
+
+        if (!(LIMIT_KEYS as readonly string[]).includes(key)) {
+            throw new Error(`Rate limits file ${path}: unknown key "${key}" in ${scope}. Allowed limits: ${LIMIT_KEYS.join(', ')}`);
+        }
+
+        if (!Number.isInteger(value) || (value as number) < 1) {
+            throw new Error(`Rate limits file ${path}: "${key}" in ${scope} must be a positive integer`);
+        }
+    }
+}
+
+function assertToolLimits(tools: unknown, path: string, scope: string, toolNames: string[]): void {
+    if (tools === undefined) {
+        return;
+    }
+
+    assertObject(tools, path, `"tools" in ${scope}`);
+
+    for (const [tool, limits] of Object.entries(tools as object)) {
+        if (!toolNames.includes(tool)) {
+            throw new Error(`Rate limits file ${path} has limits for unknown tool "${tool}"`);
+        }
+
+        assertLimits(limits, path, `"tools.${tool}" in ${scope}`, []);
+    }
+}
+
+/**
+ * Loads the rate limiter from RATE_LIMITS_FILE, or returns null when it is not set
+ *
+ * @example
+ * {
+ *   "queriesPerMinute": 30,
+ *   "concurrentQueries": 2,
+ *   "rowsPerWindow": 100000,
+ *   "executionMsPerWindow": 300000,
+ *   "windowSeconds": 3600,
+ *   "tools": {
+ *     "profile_table": { "queriesPerMinute": 5 }
+ *   },
+ *   "databases": {
+ *     "prod": { "queriesPerMinute": 10, "concurrentQueries": 1 }
+ *   }
+ * }
+ */
+export function loadRateLimiter(databaseNames: DatabaseType[], toolNames: string[]): RateLimiter | null {
+    const path = process.env.RATE_LIMITS_FILE;
+
+    if (!path) {
+        return null;
+    }
+
+    let parsed: RateLimitsFile;
+
+    try {
+        parsed = JSON.parse(readFileSync(path, 'utf8')) as RateLimitsFile;
+    } catch (error) {
+        throw new Error(`Failed to read rate limits file ${path}: ${(error as Error).message}`);
+    }
+
+    assertLimits(parsed, path, 'the file', ['windowSeconds', 'tools', 'databases']);
+    assertToolLimits(parsed.tools, path, 'the file', toolNames);
+
+    if (parsed.windowSeconds !== undefined && (!Number.isInteger(parsed.windowSeconds) || parsed.windowSeconds < 1)) {
+        throw new Error(`Rate limits file ${path}: "windowSeconds" must be a positive integer`);
+    }
+
+    if (parsed.databases !== undefined) {
+        assertObject(parsed.databases, path, '"databases"');
+    }
+
+    for (const [name, limits] of Object.entries(parsed.databases ?? {})) {
+        if (!databaseNames.includes(name)) {
+            throw new Error(`Rate limits file ${path} has limits for unknown database "${name}"`);
+        }
+
+        assertLimits(limits, path, `"databases.${name}"`, ['tools']);
+        assertToolLimits(limits.tools, path, `"databases.${name}"`, toolNames);
+    }
+
+    return new RateLimiter(parsed);
+}
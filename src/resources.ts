@@ -0,0 +1,187 @@
+/**
+ * MCP Resources Module
+ *
+ * Exposes database schemas as MCP resources so clients can attach table
+ * definitions as context without a tool call:
+ * - `postgres://{database}/overview` - statistics and tables of a database
+ * - `postgres://{database}/{schema}/tables` - tables of a schema
+ * - `postgres://{database}/{schema}/{table}/schema` - table definition (describe_table)
+ *
+ * URI segments are percent-encoded.
+ *
+ * @module resources
+ */
+
+import { ReadResourceResult, Resource } from '@modelcontextprotocol/sdk/types.js';
+import { ConnectionManager, DatabaseType } from './connection-manager.js';
+import { SchemaCache, CachedTable } from './schema-cache.js';
+import { describeTable } from './tools/describe-table.js';
+import { listTables } from './tools/list-tables.js';
+import { dbStats } from './tools/db-stats.js';
+
+const RESOURCE_PREFIX = 'postgres://';
+const MIME_TYPE = 'application/json';
+
+/**
+ * Resource templates for schema and table addressing
+ */
+export const RESOURCE_TEMPLATES = [
+    {
+        uriTemplate: `${RESOURCE_PREFIX}{database}/overview`,
+        name: 'database-overview',
+        description: 'Database statistics and all tables and views, grouped by schema.',
+        mimeType: MIME_TYPE
+    },
+    {
+        uriTemplate: `${RESOURCE_PREFIX}{database}/{schema}/tables`,
+        name: 'schema-tables',
+        description: 'Tables and views of a schema with row count estimates.',
+        mimeType: MIME_TYPE
+    },
+    {
+        uriTemplate: `${RESOURCE_PREFIX}{database}/{schema}/{table}/schema`,
+        name: 'table-schema',
+        description: 'Columns, primary key, foreign keys and indexes of a table.',
+        mimeType: MIME_TYPE
+    }
+];
+
+export function overviewUri(database: DatabaseType): string {
+    return `${RESOURCE_PREFIX}${encodeURIComponent(database)}/overview`;
+}
+
+export function schemaTablesUri(database: DatabaseType, schema: string): string {
+    return `${RESOURCE_PREFIX}${encodeURIComponent(database)}/${encodeURIComponent(schema)}/tables`;
+}
+
+export function tableSchemaUri(database: DatabaseType, schema: string, table: string): string {
+    return `${RESOURCE_PREFIX}${encodeURIComponent(database)}/${encodeURIComponent(schema)}/${encodeURIComponent(table)}/schema`;
+}
+
+/**
+ * Lists the overview of each database, each schema's table list, and every table definition
+ */
+export async function listResources(
+    connectionManager: ConnectionManager,
+    schemaCache: SchemaCache
+): Promise<Resource[]> {
+    const resources: Resource[] = [];
+
+    for (const database of connectionManager.getDatabaseNames()) {
+        resources.push({
+            uri: overviewUri(database),
+            name: `${database} overview`,
+            description: `Statistics and tables of database "${database}"`,
+            mimeType: MIME_TYPE
+        });
+
+        let tables: CachedTable[];
+
+        try {
+            tables = await schemaCache.getTables(database);
+        } catch (error) {
+            // One unreachable database must not hide the resources of the others
+            console.error(`[${database}] Could not list tables for resources: ${(error as Error).message}`);
+            continue;
+        }
+
+        for (const schema of new Set(tables.map(table => table.schema))) {
+            resources.push({
+                uri: schemaTablesUri(database, schema),
+                name: `${database}.${schema} tables`,
+                mimeType: MIME_TYPE
+            });
+        }
+
+        for (const table of tables) {
+            resources.push({
+                uri: tableSchemaUri(database, table.schema, table.name),
+                name: `${database}.${table.schema}.${table.name}`,
+                description: `Definition of ${table.type} ${table.schema}.${table.name}`,
+                mimeType: MIME_TYPE
+            });
+        }
+    }
+
+    return resources;
+}
+
+/**
+ * Splits a resource URI into its decoded path segments, database first
+ */
+function parseResourceUri(uri: string): string[] {
+    if (!uri.startsWith(RESOURCE_PREFIX)) {
+        throw new Error(`Unsupported resource URI: ${uri}. Expected ${RESOURCE_PREFIX}...`);
+    }
+
+    try {
+        return uri.slice(RESOURCE_PREFIX.length).split('/').map(segment => decodeURIComponent(segment));
+    } catch {
+        throw new Error(`Invalid resource URI: ${uri}. Segments must be percent-encoded.`);
+    }
+}
+
+/**
+ * Returns the database a resource URI names, or undefined when the URI is malformed
+ */
+export function resourceDatabase(uri: string): DatabaseType | undefined {
+    try {
+        return parseResourceUri(uri)[0];
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Reads a resource by URI
+ */
+export async function readResource(
+    connectionManager: ConnectionManager,
+    schemaCache: SchemaCache,
+    uri: string
+): Promise<ReadResourceResult> {
+    const segments = parseResourceUri(uri);
+    const database = segments[0];
+
+    if (!connectionManager.hasDatabase(database)) {
+        const allowed = connectionManager.getDatabaseNames().join(', ');
+        throw new Error(`Unknown database "${database}" in resource URI. Allowed values: ${allowed}`);
+    }
+
+    let content: unknown;
+
+    if (segments.length === 2 && segments[1] === 'overview') {
+        const [stats, tables] = await Promise.all([
+            dbStats(connectionManager, { database }),
+            schemaCache.getTables(database)
+        ]);
+        const schemas: Record<string, Array<{ name: string; type: string; uri: string }>> = {};
+
+        for (const table of tables) {
+            (schemas[table.schema] ??= []).push({
+                name: table.name,
+                type: table.type,
+                uri: tableSchemaUri(database, table.schema, table.name)
+            });
+        }
+
+        content = { ...stats, schemas };
+    } else if (segments.length === 3 && segments[2] === 'tables') {
+        content = await listTables(connectionManager, { database, schema: segments[1] });
+    } else if (segments.length === 4 && segments[3] === 'schema') {
+        content = await describeTable(connectionManager, { database, schema: segments[1], table: segments[2] });
+    } else {
+        const templates = RESOURCE_TEMPLATES.map(template => template.uriTemplate).join(', ');
+        throw new Error(`Unknown resource URI: ${uri}. Supported forms: ${templates}`);
+    }
+
+    return {
+        contents: [
+            {
+                uri,
+                mimeType: MIME_TYPE,
+                text: JSON.stringify(content, null, 2)
+            }
+        ]
+    };
+}
@@ -0,0 +1,199 @@
+/**
+ * Result Formatter Module
+ *
+ * Renders query results as pretty JSON, compact columnar JSON, a markdown
+ * table or CSV. Every format cuts long cell text, including the JSON text of
+ * objects and arrays, to LIMITS.TEXT_TRUNCATE characters.
+ *
+ * @module result-formatter
+ */
+
+import { QueryResult, LIMITS } from './types.js';
+
+/**
+ * Supported output formats for row-returning tools
+ */
+export const OUTPUT_FORMATS = ['json', 'columnar', 'markdown', 'csv'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Builds the notice shown when a result does not contain all rows
+ */
+function truncationNotice(result: QueryResult): string | null {
+    if (!result.truncated) {
+        return null;
+    }
+
+    const next = result.cursor
+        ? `Call fetch_page with cursor "${result.cursor}" for the next page.`
+        : 'Increase limit, add filters, or use paginate to see more.';
+
+    return `Results truncated: showing ${result.rowCount} rows. ${next}`;
+}
+
+/**
+ * Builds the notice shown when the PII scanner masked values
+ */
+function piiNotice(result: QueryResult): string | null {
+    if (!result.piiMasked) {
+        return null;
+    }
+
+    const columns = result.piiMasked.columns
+        .map(entry => `${entry.column} (${entry.kinds.join(', ')}; ${entry.values} values)`)
+        .join(', ');
+
+    return `Personal data masked (${result.piiMasked.strategy}): ${columns}`;
+}
+
+function truncateText(text: string): string {
+    return text.length > LIMITS.TEXT_TRUNCATE
+        ? text.substring(0, LIMITS.TEXT_TRUNCATE) + '... (truncated)'
+        : text;
+}
+
+/**
+ * Cuts cells for JSON output like the text formats do. Short values keep their JSON type;
+ * objects and arrays whose JSON text is too long become that text, cut.
+ */
+function truncateCell(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return truncateText(value);
+    }
+
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+
+    const tagged = value as { $type?: unknown; value?: unknown };
+
+    if (typeof tagged.$type === 'string' && typeof tagged.value === 'string') {
+        return { ...tagged, value: truncateText(tagged.value) };
+    }
+
+    const text = JSON.stringify(value);
+
+    return text.length > LIMITS.TEXT_TRUNCATE ? truncateText(text) : value;
+}
+
+/**
+ * Converts a cell value to text; tagged values (`{ "$type", "value" }`) show only their value
+ */
+function cellText(value: unknown): string | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+
+    if (typeof value === 'object') {
+        const tagged = value as { $type?: unknown; value?: unknown };
+
+        if (typeof tagged.$type === 'string' && typeof tagged.value === 'string') {
+            return truncateText(tagged.value);
+        }
+
+        return truncateText(JSON.stringify(value));
+    }
+
+    return truncateText(String(value));
+}
+
+function columnNames(result: QueryResult): string[] {
+    if (result.fields.length > 0) {
+        return result.fields.map(field => field.name);
+    }
+
+    return result.rows.length > 0 ? Object.keys(result.rows[0]) : [];
+}
+
+function toColumnar(result: QueryResult): string {
+    const columns = columnNames(result);
+    const rows = result.rows.map(row => columns.map(column => truncateCell(row[column])));
+
+    const output: Record<string, unknown> = {
+        fields: result.fields,
+        rows,
+        rowCount: result.rowCount,
+        truncated: result.truncated
+    };
+
+    if (result.cursor) {
+        output.cursor = result.cursor;
+    }
+
+    if (result.piiMasked) {
+        output.piiMasked = result.piiMasked;
+    }
+
+    return JSON.stringify(output);
+}
+
+function toJson(result: QueryResult): string {
+    const rows = result.rows.map(row =>
+        Object.fromEntries(Object.entries(row).map(([column, value]) => [column, truncateCell(value)]))
+    );
+
+    return JSON.stringify({ ...result, rows }, null, 2);
+}
+
+function escapeMarkdownCell(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function toMarkdown(result: QueryResult): string {
+    const columns = columnNames(result);
+
+    if (columns.length === 0) {
+        return '_No columns_';
+    }
+
+    const header = `| ${columns.map(escapeMarkdownCell).join(' | ')} |`;
+    const separator = `| ${columns.map(() => '---').join(' | ')} |`;
+    const rows = result.rows.map(row =>
+        `| ${columns.map(column => escapeMarkdownCell(cellText(row[column]) ?? 'NULL')).join(' | ')} |`
+    );
+
+    if (rows.length === 0) {
+        rows.push(`| ${columns.map(() => ' ').join(' | ')} |`);
+    }
+
+    return [header, separator, ...rows].join('\n');
+}
+
+function escapeCsvCell(text: string): string {
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(result: QueryResult): string {
+    const columns = columnNames(result);
+    const lines = [columns.map(escapeCsvCell).join(',')];
+
+    for (const row of result.rows) {
+        // NULL is an empty field; an empty string is quoted to keep them apart
+        lines.push(columns.map(column => {
+            const text = cellText(row[column]);
+            return text === null ? '' : text === '' ? '""' : escapeCsvCell(text);
+        }).join(','));
+    }
+
+    return lines.join('\r\n');
+}
+
+/**
+ * Renders a query result in the requested format.
+ * Returns one text block for the data, plus notice blocks when the result is truncated or has masked personal data.
+ */
+export function formatResult(result: QueryResult, format: OutputFormat = 'json'): string[] {
+    const renderers: Record<OutputFormat, (result: QueryResult) => string> = {
+        json: toJson,
+        columnar: toColumnar,
+        markdown: toMarkdown,
+        csv: toCsv
+    };
+
+    const body = renderers[format](result);
+
+    const notices = [truncationNotice(result), piiNotice(result)].filter((notice): notice is string => notice !== null);
+
+    return [body, ...notices];
+}
@@ -0,0 +1,114 @@
+/**
+ * Schema Cache Module
+ *
+ * Caches the tables, views and other relations of each database so MCP resources can be
+ * listed without querying the catalog on every request.
+ *
+ * @module schema-cache
+ */
+
+import { ConnectionManager, DatabaseType } from './connection-manager.js';
+import { LIMITS, RelationKind } from './types.js';
+import { RELATION_KIND_SQL } from './tools/list-tables.js';
+
+/**
+ * Relation known to the cache
+ */
+export interface CachedTable {
+    schema: string;
+    name: string;
+    type: RelationKind;
+}
+
+const TABLES_QUERY = `
+  SELECT
+    n.nspname AS table_schema,
+    c.relname AS table_name,
+    ${RELATION_KIND_SQL} AS kind
+  FROM
+    pg_class c
+  JOIN
+    pg_namespace n ON n.oid = c.relnamespace
+  WHERE
+    c.relkind IN ('r', 'p', 'v', 'm', 'f')
+    AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+    AND n.nspname NOT LIKE 'pg_toast%'
+    AND n.nspname NOT LIKE 'pg_temp%'
+  ORDER BY
+    n.nspname, c.relname
+`;
+
+function sameTables(a: CachedTable[], b: CachedTable[]): boolean {
+    return a.length === b.length && a.every((table, index) =>
+        table.schema === b[index].schema && table.name === b[index].name && table.type === b[index].type
+    );
+}
+
+/**
+ * Per-database cache of table and view names
+ */
+export class SchemaCache {
+    private tables: Map<DatabaseType, CachedTable[]> = new Map();
+    private listeners: Array<(database: DatabaseType) => void> = [];
+
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Returns the cached tables of a database, loading them on first use
+     */
+    async getTables(database: DatabaseType): Promise<CachedTable[]> {
+        const cached = this.tables.get(database);
+
+        if (cached) {
+            return cached;
+        }
+
+        const tables = await this.load(database);
+        this.tables.set(database, tables);
+
+        return tables;
+    }
+
+    /**
+     * Reloads the tables of a database and clears its type catalog.
+     * Returns true, and notifies listeners, when the set of tables changed.
+     */
+    async refresh(database: DatabaseType): Promise<boolean> {
+        const previous = this.tables.get(database);
+        const tables = await this.load(database);
+
+        this.tables.set(database, tables);
+        this.connectionManager.refreshTypeCatalog(database);
+
+        const changed = !previous || !sameTables(previous, tables);
+
+        if (changed) {
+            for (const listener of this.listeners) {
+                listener(database);
+            }
+        }
+
+        return changed;
+    }
+
+    /**
+     * Registers a callback for refreshes that changed a database's tables
+     */
+    onChange(listener: (database: DatabaseType) => void): void {
+        this.listeners.push(listener);
+    }
+
+    private async load(database: DatabaseType): Promise<CachedTable[]> {
+        // Databases with more than QUERY_MAX tables list only the first ones
+        const result = await this.connectionManager.executeQuery(database, TABLES_QUERY, [], LIMITS.QUERY_MAX);
+        const policy = this.connectionManager.getAccessPolicy();
+
+        return result.rows
+            .map(row => ({
+                schema: row.table_schema as string,
+                name: row.table_name as string,
+                type: row.kind as RelationKind
+            }))
+            .filter(table => !policy.isTableDenied(database, table.schema, table.name));
+    }
+}
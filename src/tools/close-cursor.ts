@@ -0,0 +1,22 @@
+import { ConnectionManager } from '../connection-manager.js';
+
+export interface CloseCursorInput {
+    cursor: string;
+}
+
+export interface CloseCursorResult {
+    cursor: string;
+    closed: boolean;
+}
+
+export async function closeCursor(
+    connectionManager: ConnectionManager,
+    input: CloseCursorInput
+): Promise<CloseCursorResult> {
+    const closed = await connectionManager.closeCursor(input.cursor);
+
+    return {
+        cursor: input.cursor,
+        closed
+    };
+}
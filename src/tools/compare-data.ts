@@ -0,0 +1,535 @@
+import { ConnectionManager, DatabaseType } from '../connection-manager.js';
+import { LIMITS, QueryResult } from '../types.js';
+import { encodeResult } from '../value-encoder.js';
+import { quoteIdentifier } from './find-join-paths.js';
+import { truncateLongText } from './preview-data.js';
+
+export interface CompareDataInput {
+    table: string;
+    target: DatabaseType;
+    source?: DatabaseType;
+    schema?: string;
+    chunkSize?: number;
+    maxChunks?: number;
+    sampleLimit?: number;
+}
+
+export interface ColumnAggregates {
+    nonNull: number;
+    min: string | null;
+    max: string | null;
+    sum: string | null;
+}
+
+export interface ColumnAggregateComparison {
+    column: string;
+    matches: boolean;
+    source: ColumnAggregates;
+    target: ColumnAggregates;
+}
+
+/**
+ * Primary key range: rows with keys after `after` (exclusive) up to `upTo` (inclusive). Null means unbounded.
+ */
+export interface KeyRange {
+    after: Record<string, string> | null;
+    upTo: Record<string, string> | null;
+}
+
+export interface DifferingRange extends KeyRange {
+    sourceRows: number;
+    targetRows: number;
+    differences: number;
+}
+
+export interface RowDifference {
+    key: Record<string, string>;
+    status: 'missing in target' | 'extra in target' | 'changed';
+    changedColumns?: string[];
+    source: Record<string, unknown> | null;
+    target: Record<string, unknown> | null;
+}
+
+export interface CompareDataResult {
+    table: string;
+    source: DatabaseType;
+    target: DatabaseType;
+    identical: boolean;
+    primaryKey: string[];
+    columns: string[]; // Columns present on both sides, used for checksums
+    columnsOnlyInSource: string[];
+    columnsOnlyInTarget: string[];
+    rowCount: { source: number; target: number } | null; // Null when not every chunk was compared
+    columnAggregates: ColumnAggregateComparison[] | null;
+    aggregatesError?: string;
+    chunks: {
+        chunkSize: number;
+        compared: number;
+        differing: number;
+        complete: boolean; // False when maxChunks stopped the comparison before the end of the table
+    };
+    differingRanges: DifferingRange[];
+    samples: RowDifference[];
+}
+
+interface TableColumn {
+    name: string;
+    type: string; // format_type, used to cast key parameters
+    typeName: string;
+    category: string;
+    keyPosition: number | null;
+    masked: boolean; // Masked by the access policy: compared by checksum only
+}
+
+interface RangeChecksum {
+    rows: number;
+    checksum: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 10000;
+const MAX_CHUNK_SIZE = 100000;
+const DEFAULT_MAX_CHUNKS = 100;
+const MAX_CHUNKS_LIMIT = 1000;
+const DEFAULT_SAMPLE_LIMIT = 10;
+const MAX_SAMPLE_LIMIT = 100;
+
+// Ranges are split until both sides fit in one leaf, whose rows are compared key by key
+const LEAF_SIZE = 1000;
+const MAX_DIFFERING_RANGES = 20;
+
+const EXACT_SUM_TYPES = ['int2', 'int4', 'int8', 'numeric'];
+const ORDERED_TYPES = ['int2', 'int4', 'int8', 'numeric', 'float4', 'float8', 'oid'];
+
+/**
+ * Column value as compared text. timestamptz is rendered in UTC so the session time zone of each database does not matter.
+ */
+function valueSql(column: TableColumn): string {
+    const name = quoteIdentifier(column.name);
+    return column.typeName === 'timestamptz' ? `(${name} AT TIME ZONE 'UTC')` : name;
+}
+
+function keyText(key: string[], keyColumns: TableColumn[]): Record<string, string> {
+    return Object.fromEntries(keyColumns.map((column, index) => [column.name, key[index]]));
+}
+
+/**
+ * Reads and compares a table of two databases in primary key order
+ */
+class TableComparison {
+    readonly keyColumns: TableColumn[];
+    private readonly tableSql: string;
+    private readonly keyListSql: string;
+    private readonly rowSql: string;
+
+    constructor(
+        private readonly connectionManager: ConnectionManager,
+        schema: string,
+        table: string,
+        readonly columns: TableColumn[]
+    ) {
+        this.keyColumns = columns
+            .filter(column => column.keyPosition !== null)
+            .sort((a, b) => a.keyPosition! - b.keyPosition!);
+        this.tableSql = `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
+        this.keyListSql = this.keyColumns.map(column => quoteIdentifier(column.name)).join(', ');
+        this.rowSql = `ROW(${columns.map(valueSql).join(', ')})::text`;
+    }
+
+    /**
+     * Key values as parameters, passed as text and cast to the source key types
+     */
+    private keyParams(key: Record<string, string>, params: unknown[]): string {
+        return this.keyColumns
+            .map(column => {
+                params.push(key[column.name]);
+                return `$${params.length}::${column.type}`;
+            })
+            .join(', ');
+    }
+
+    private rangeCondition(range: KeyRange, params: unknown[]): string {
+        const conditions = ['TRUE'];
+
+        if (range.after) {
+            conditions.push(`(${this.keyListSql}) > (${this.keyParams(range.after, params)})`);
+        }
+
+        if (range.upTo) {
+            conditions.push(`(${this.keyListSql}) <= (${this.keyParams(range.upTo, params)})`);
+        }
+
+        return conditions.join(' AND ');
+    }
+
+    private keySelectSql(): string {
+        return this.keyColumns.map((column, index) => `${quoteIdentifier(column.name)}::text AS k${index}`).join(', ');
+    }
+
+    private toKey(row: Record<string, unknown>): Record<string, string> {
+        return keyText(this.keyColumns.map((_, index) => row[`k${index}`] as string), this.keyColumns);
+    }
+
+    /**
+     * Key of the row at `offset` within a range, or null when the range has fewer rows
+     */
+    async keyAt(database: DatabaseType, range: KeyRange, offset: number): Promise<Record<string, string> | null> {
+        const params: unknown[] = [];
+        const query = `
+        SELECT ${this.keySelectSql()}
+        FROM ${this.tableSql}
+        WHERE ${this.rangeCondition(range, params)}
+        ORDER BY ${this.keyListSql}
+        OFFSET ${offset}
+        LIMIT 1
+      `;
+
+        const result = await this.connectionManager.executeQuery(database, query, params, 1);
+        return result.rows.length > 0 ? this.toKey(result.rows[0]) : null;
+    }
+
+    async checksum(database: DatabaseType, range: KeyRange): Promise<RangeChecksum> {
+        const params: unknown[] = [];
+        const query = `
+        SELECT
+          count(*) AS row_count,
+          md5(COALESCE(string_agg(md5(${this.rowSql}), '' ORDER BY ${this.keyListSql}), '')) AS checksum
+        FROM ${this.tableSql}
+        WHERE ${this.rangeCondition(range, params)}
+      `;
+
+        const result = await this.connectionManager.executeQuery(database, query, params, 1);
+        return {
+            rows: parseInt(result.rows[0].row_count as string, 10),
+            checksum: result.rows[0].checksum as string
+        };
+    }
+
+    /**
+     * Row hashes of a range by key, in key order
+     */
+    async rowHashes(database: DatabaseType, range: KeyRange): Promise<Map<string, { key: Record<string, string>; hash: string }>> {
+        const params: unknown[] = [];
+        const query = `
+        SELECT ${this.keySelectSql()}, md5(${this.rowSql}) AS row_hash
+        FROM ${this.tableSql}
+        WHERE ${this.rangeCondition(range, params)}
+        ORDER BY ${this.keyListSql}
+      `;
+
+        const result = await this.connectionManager.executeQuery(database, query, params, LIMITS.QUERY_MAX);
+
+        return new Map(result.rows.map(row => {
+            const key = this.toKey(row);
+            return [JSON.stringify(key), { key, hash: row.row_hash as string }];
+        }));
+    }
+
+    /**
+     * Masks personal data in values reported by column name, as the PII scanner does for query
+     * results with the same column types. Differences are found on the raw values.
+     */
+    maskReported<T extends Record<string, unknown>>(values: T, columns: Array<Pick<TableColumn, 'name' | 'typeName'>>): T {
+        const fields = columns.map(column => ({ name: column.name, type: column.typeName, isArray: false }));
+        return this.connectionManager.maskPii({ rows: [values], fields, rowCount: 1, truncated: false }).rows[0] as T;
+    }
+
+    maskKey(key: Record<string, string>): Record<string, string> {
+        return this.maskReported(key, this.keyColumns);
+    }
+
+    /**
+     * Row with the given key, as compared (`row`) and as reported with personal data masked (`reported`)
+     */
+    async fetchRow(
+        database: DatabaseType,
+        key: Record<string, string>
+    ): Promise<{ row: Record<string, unknown>; reported: Record<string, unknown> } | null> {
+        const params: unknown[] = [];
+        const query = `
+        SELECT *
+        FROM ${this.tableSql}
+        WHERE (${this.keyListSql}) = (${this.keyParams(key, params)})
+      `;
+
+        const policy = this.connectionManager.getAccessPolicy();
+        const columnRules = await policy.checkQuery(this.connectionManager, database, query);
+        const result = policy.maskResult(await this.connectionManager.executeQuery(database, query, params, 1), columnRules);
+        const encode = (rows: QueryResult): Record<string, unknown> => truncateLongText(encodeResult(rows)).rows[0];
+
+        return result.rows.length > 0
+            ? { row: encode(result), reported: encode(this.connectionManager.maskPii(result)) }
+            : null;
+    }
+
+    async aggregates(database: DatabaseType): Promise<ColumnAggregates[]> {
+        const selections = this.columns.flatMap((column, index) => {
+            const value = valueSql(column);
+            const ordered = !column.masked
+                && (ORDERED_TYPES.includes(column.typeName) || ['D', 'S', 'T', 'E'].includes(column.category));
+            const summable = !column.masked && EXACT_SUM_TYPES.includes(column.typeName);
+
+            return [
+                `count(${quoteIdentifier(column.name)}) AS a${index}_non_null`,
+                `${ordered ? `min(${value})::text` : 'NULL::text'} AS a${index}_min`,
+                `${ordered ? `max(${value})::text` : 'NULL::text'} AS a${index}_max`,
+                `${summable ? `sum(${value})::text` : 'NULL::text'} AS a${index}_sum`
+            ];
+        });
+        const query = `SELECT ${selections.join(', ')} FROM ${this.tableSql}`;
+        const row = (await this.connectionManager.executeQuery(database, query, [], 1)).rows[0];
+
+        return this.columns.map((_, index) => ({
+            nonNull: parseInt(row[`a${index}_non_null`] as string, 10),
+            min: row[`a${index}_min`] as string | null,
+            max: row[`a${index}_max`] as string | null,
+            sum: row[`a${index}_sum`] as string | null
+        }));
+    }
+}
+
+async function loadColumns(
+    connectionManager: ConnectionManager,
+    database: DatabaseType,
+    schema: string,
+    table: string
+): Promise<TableColumn[]> {
+    const query = `
+    SELECT
+      a.attname::text AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS data_type,
+      t.typname::text AS type_name,
+      t.typcategory::text AS type_category,
+      array_position(pk.conkey, a.attnum) AS key_position
+    FROM
+      pg_attribute a
+    JOIN
+      pg_class c ON c.oid = a.attrelid
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    JOIN
+      pg_type t ON t.oid = a.atttypid
+    LEFT JOIN
+      pg_constraint pk ON pk.conrelid = c.oid AND pk.contype = 'p'
+    WHERE
+      n.nspname = $1
+      AND c.relname = $2
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+    ORDER BY
+      a.attnum
+  `;
+
+    const result = await connectionManager.executeQuery(database, query, [schema, table], LIMITS.QUERY_MAX);
+
+    if (result.rows.length === 0) {
+        throw new Error(`Table "${schema}.${table}" not found in database "${database}"`);
+    }
+
+    const policy = connectionManager.getAccessPolicy();
+
+    // Differences are reported by key, so key values must be readable
+    for (const row of result.rows.filter(entry => entry.key_position !== null)) {
+        policy.assertColumnReadable(database, schema, table, row.column_name as string);
+    }
+
+    return result.rows
+        .map(row => ({
+            name: row.column_name as string,
+            type: row.data_type as string,
+            typeName: row.type_name as string,
+            category: row.type_category as string,
+            keyPosition: row.key_position === null ? null : Number(row.key_position),
+            masked: policy.columnAction(database, schema, table, row.column_name as string) === 'mask'
+        }))
+        .filter(column => policy.columnAction(database, schema, table, column.name) !== 'hide');
+}
+
+export async function compareData(
+    connectionManager: ConnectionManager,
+    input: CompareDataInput
+): Promise<CompareDataResult> {
+    const source = input.source || connectionManager.getDefaultDatabase();
+    const target = input.target;
+    const schema = input.schema || 'public';
+    const table = input.table;
+    const chunkSize = Math.min(input.chunkSize || DEFAULT_CHUNK_SIZE, MAX_CHUNK_SIZE);
+    const maxChunks = Math.min(input.maxChunks || DEFAULT_MAX_CHUNKS, MAX_CHUNKS_LIMIT);
+    const sampleLimit = Math.min(input.sampleLimit ?? DEFAULT_SAMPLE_LIMIT, MAX_SAMPLE_LIMIT);
+    const policy = connectionManager.getAccessPolicy();
+
+    policy.assertTableAllowed(source, schema, table);
+    policy.assertTableAllowed(target, schema, table);
+
+    const sourceColumns = await loadColumns(connectionManager, source, schema, table);
+    const targetColumns = await loadColumns(connectionManager, target, schema, table);
+    const targetNames = new Set(targetColumns.map(column => column.name));
+    const sourceNames = new Set(sourceColumns.map(column => column.name));
+
+    // Keys and types come from the source; the target must have the same key columns
+    const columns = sourceColumns.filter(column => targetNames.has(column.name));
+    const comparison = new TableComparison(connectionManager, schema, table, columns);
+    const primaryKey = sourceColumns.filter(column => column.keyPosition !== null);
+
+    if (primaryKey.length === 0) {
+        throw new Error(`Table "${schema}.${table}" has no primary key in database "${source}". Data comparison reads it in key order.`);
+    }
+
+    if (comparison.keyColumns.length !== primaryKey.length) {
+        throw new Error(`Primary key columns of "${schema}.${table}" are missing in database "${target}"`);
+    }
+
+    const result: CompareDataResult = {
+        table: `${schema}.${table}`,
+        source,
+        target,
+        identical: false,
+        primaryKey: comparison.keyColumns.map(column => column.name),
+        columns: columns.map(column => column.name),
+        columnsOnlyInSource: sourceColumns.filter(column => !targetNames.has(column.name)).map(column => column.name),
+        columnsOnlyInTarget: targetColumns.filter(column => !sourceNames.has(column.name)).map(column => column.name),
+        rowCount: null,
+        columnAggregates: null,
+        chunks: { chunkSize, compared: 0, differing: 0, complete: false },
+        differingRanges: [],
+        samples: []
+    };
+
+    // Aggregates scan the whole table; a timeout there should not stop the chunked comparison
+    try {
+        const sourceAggregates = await comparison.aggregates(source);
+        const targetAggregates = await comparison.aggregates(target);
+
+        // Min and max are column values; sums and counts are numbers
+        const report = (aggregates: ColumnAggregates, column: TableColumn): ColumnAggregates => ({
+            ...aggregates,
+            ...comparison.maskReported({ min: aggregates.min, max: aggregates.max }, [
+                { name: 'min', typeName: column.typeName },
+                { name: 'max', typeName: column.typeName }
+            ])
+        });
+
+        result.columnAggregates = columns.map((column, index) => ({
+            column: column.name,
+            matches: JSON.stringify(sourceAggregates[index]) === JSON.stringify(targetAggregates[index]),
+            source: report(sourceAggregates[index], column),
+            target: report(targetAggregates[index], column)
+        }));
+    } catch (error) {
+        result.aggregatesError = (error as Error).message;
+    }
+
+    const addSamples = async (range: KeyRange, sourceRows: number, targetRows: number): Promise<void> => {
+        const sourceHashes = await comparison.rowHashes(source, range);
+        const targetHashes = await comparison.rowHashes(target, range);
+        const differences: Array<{ key: Record<string, string>; status: RowDifference['status'] }> = [];
+
+        for (const [id, row] of sourceHashes) {
+            const other = targetHashes.get(id);
+
+            if (!other) {
+                differences.push({ key: row.key, status: 'missing in target' });
+            } else if (other.hash !== row.hash) {
+                differences.push({ key: row.key, status: 'changed' });
+            }
+        }
+
+        for (const [id, row] of targetHashes) {
+            if (!sourceHashes.has(id)) {
+                differences.push({ key: row.key, status: 'extra in target' });
+            }
+        }
+
+        result.differingRanges.push({
+            after: range.after && comparison.maskKey(range.after),
+            upTo: range.upTo && comparison.maskKey(range.upTo),
+            sourceRows,
+            targetRows,
+            differences: differences.length
+        });
+
+        for (const difference of differences.slice(0, sampleLimit - result.samples.length)) {
+            const sourceRow = difference.status === 'extra in target' ? null : await comparison.fetchRow(source, difference.key);
+            const targetRow = difference.status === 'missing in target' ? null : await comparison.fetchRow(target, difference.key);
+            const sample: RowDifference = {
+                key: comparison.maskKey(difference.key),
+                status: difference.status,
+                source: sourceRow?.reported ?? null,
+                target: targetRow?.reported ?? null
+            };
+
+            if (sourceRow && targetRow) {
+                sample.changedColumns = result.columns.filter(name =>
+                    JSON.stringify(sourceRow.row[name]) !== JSON.stringify(targetRow.row[name]));
+            }
+
+            result.samples.push(sample);
+        }
+    };
+
+    // Splits a differing range at the middle key of its larger side until both sides fit in a leaf
+    const narrow = async (range: KeyRange, sourceRows: number, targetRows: number): Promise<void> => {
+        if (result.differingRanges.length >= MAX_DIFFERING_RANGES) {
+            return;
+        }
+
+        const larger = sourceRows >= targetRows ? source : target;
+        const middle = Math.max(sourceRows, targetRows) > LEAF_SIZE
+            ? await comparison.keyAt(larger, range, Math.floor(Math.max(sourceRows, targetRows) / 2) - 1)
+            : null;
+
+        if (!middle) {
+            await addSamples(range, sourceRows, targetRows);
+            return;
+        }
+
+        for (const half of [{ after: range.after, upTo: middle }, { after: middle, upTo: range.upTo }]) {
+            const sourceChecksum = await comparison.checksum(source, half);
+            const targetChecksum = await comparison.checksum(target, half);
+
+            if (sourceChecksum.checksum !== targetChecksum.checksum) {
+                await narrow(half, sourceChecksum.rows, targetChecksum.rows);
+            }
+        }
+    };
+
+    // Chunk boundaries follow the source; once it is exhausted, the remaining target rows are walked the same way
+    const rowCount = { source: 0, target: 0 };
+    let after: Record<string, string> | null = null;
+
+    while (result.chunks.compared < maxChunks) {
+        const upTo: Record<string, string> | null = await comparison.keyAt(source, { after, upTo: null }, chunkSize - 1)
+            ?? await comparison.keyAt(target, { after, upTo: null }, chunkSize - 1);
+        const range = { after, upTo };
+        const sourceChecksum = await comparison.checksum(source, range);
+        const targetChecksum = await comparison.checksum(target, range);
+
+        result.chunks.compared++;
+        rowCount.source += sourceChecksum.rows;
+        rowCount.target += targetChecksum.rows;
+
+        if (sourceChecksum.checksum !== targetChecksum.checksum) {
+            result.chunks.differing++;
+            await narrow(range, sourceChecksum.rows, targetChecksum.rows);
+        }
+
+        if (!upTo) {
+            result.chunks.complete = true;
+            break;
+        }
+
+        after = upTo;
+    }
+
+    if (result.chunks.complete) {
+        result.rowCount = rowCount;
+    }
+
+    result.identical = result.chunks.complete
+        && result.chunks.differing === 0
+        && result.columnsOnlyInSource.length === 0
+        && result.columnsOnlyInTarget.length === 0
+        && (result.columnAggregates ?? []).every(aggregate => aggregate.matches);
+
+    return result;
+}
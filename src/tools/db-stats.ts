@@ -17,7 +17,7 @@ export async function dbStats(
     connectionManager: ConnectionManager,
     input: DbStatsInput
 ): Promise<DatabaseStats> {
-    const database = input.database || 'db';
+    const database = input.database || connectionManager.getDefaultDatabase();
 
     // Get database size
     const sizeQuery = `
@@ -42,6 +42,7 @@ export async function dbStats(
     // Get largest tables
     const largestTablesQuery = `
     SELECT
+      schemaname as table_schema,
       relname as table_name,
       n_live_tup as row_count,
       pg_size_pretty(pg_total_relation_size(relid)) as total_size
@@ -54,11 +55,15 @@ export async function dbStats(
 
     const largestTablesResult = await connectionManager.executeQuery(database, largestTablesQuery, []);
 
-    const largestTables: TableStat[] = largestTablesResult.rows.map(row => ({
-        table: row.table_name as string,
-        rows: parseInt(row.row_count as string || '0', 10),
-        size: row.total_size as string
-    }));
+    const policy = connectionManager.getAccessPolicy();
+
+    const largestTables: TableStat[] = largestTablesResult.rows
+        .filter(row => !policy.isTableDenied(database, row.table_schema as string, row.table_name as string))
+        .map(row => ({
+            table: row.table_name as string,
+            rows: parseInt(row.row_count as string || '0', 10),
+            size: row.total_size as string
+        }));
 
     return {
         database,
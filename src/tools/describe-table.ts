@@ -1,5 +1,12 @@
 import { ConnectionManager, DatabaseType } from '../connection-manager.js';
-import { ColumnInfo, ForeignKeyInfo, IndexInfo } from '../types.js';
+import {
+    ColumnInfo,
+    ConstraintInfo,
+    ForeignKeyInfo,
+    IndexInfo,
+    PartitioningInfo,
+    PartitionOfInfo
+} from '../types.js';
 
 export interface DescribeTableInput {
     table: string;
@@ -10,136 +17,409 @@ export interface DescribeTableInput {
 export interface TableDescription {
     table: string;
     schema: string;
+    comment: string;
     columns: ColumnInfo[];
     primaryKey: string[];
     foreignKeys: ForeignKeyInfo[];
+    constraints: ConstraintInfo[];
     indexes: IndexInfo[];
+    partitioning?: PartitioningInfo;
+    partitionOf?: PartitionOfInfo;
+}
+
+const CONSTRAINT_TYPES: Record<string, ConstraintInfo['type']> = {
+    c: 'check',
+    u: 'unique',
+    x: 'exclusion'
+};
+
+const PARTITION_STRATEGIES: Record<string, PartitioningInfo['strategy']> = {
+    r: 'range',
+    l: 'list',
+    h: 'hash'
+};
+
+/**
+ * Summarizes identity, generated and serial columns for the `extra` field
+ */
+function columnExtra(identity: string, generated: string, sequence: string | null): string {
+    if (identity === 'a') {
+        return 'identity always';
+    }
+
+    if (identity === 'd') {
+        return 'identity by default';
+    }
+
+    if (generated === 's') {
+        return 'generated stored';
+    }
+
+    if (generated === 'v') {
+        return 'generated virtual';
+    }
+
+    return sequence ? 'serial' : '';
+}
+
+/**
+ * Checks whether a key part, plain column or expression, mentions one of the given columns
+ */
+export function mentionsColumn(part: string, columns: string[]): boolean {
+    const words = part.replace(/"/g, '').split(/[^A-Za-z0-9_$]+/);
+    return columns.some(column => words.includes(column));
 }
 
 export async function describeTable(
     connectionManager: ConnectionManager,
     input: DescribeTableInput
 ): Promise<TableDescription> {
-    const database = input.database || 'db';
+    const database = input.database || connectionManager.getDefaultDatabase();
     const schema = input.schema || 'public';
     const table = input.table;
+    const policy = connectionManager.getAccessPolicy();
+
+    policy.assertTableAllowed(database, schema, table);
+
+    // Resolve the relation once; the remaining queries look it up by OID
+    const tableQuery = `
+    SELECT
+      c.oid::text AS oid,
+      COALESCE(obj_description(c.oid, 'pg_class'), '') AS table_comment,
+      pt.partstrat,
+      pg_get_partkeydef(c.oid) AS partition_key,
+      pn.nspname AS parent_schema,
+      p.relname AS parent_table,
+      pg_get_expr(c.relpartbound, c.oid) AS partition_bound
+    FROM
+      pg_class c
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN
+      pg_partitioned_table pt ON pt.partrelid = c.oid
+    LEFT JOIN
+      pg_inherits inh ON inh.inhrelid = c.oid AND c.relispartition
+    LEFT JOIN
+      pg_class p ON p.oid = inh.inhparent
+    LEFT JOIN
+      pg_namespace pn ON pn.oid = p.relnamespace
+    WHERE
+      n.nspname = $1
+      AND c.relname = $2
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+  `;
+
+    const tableResult = await connectionManager.executeQuery(database, tableQuery, [schema, table]);
+
+    if (tableResult.rows.length === 0) {
+        throw new Error(`Table "${schema}.${table}" not found`);
+    }
+
+    const tableRow = tableResult.rows[0];
+    const oid = tableRow.oid as string;
 
     // Get columns
     const columnsQuery = `
-    SELECT 
-      column_name,
-      data_type,
-      is_nullable,
-      column_default,
-      '' as extra, 
-      NULL as column_comment
-    FROM 
-      information_schema.columns
-    WHERE 
-      table_schema = $1 AND table_name = $2
-    ORDER BY 
-      ordinal_position
+    SELECT
+      a.attname AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS data_type,
+      NOT a.attnotnull AS nullable,
+      CASE WHEN a.attgenerated = '' THEN pg_get_expr(ad.adbin, ad.adrelid) END AS column_default,
+      CASE WHEN a.attgenerated <> '' THEN pg_get_expr(ad.adbin, ad.adrelid) END AS generation_expression,
+      a.attidentity::text AS identity,
+      a.attgenerated::text AS generated,
+      COALESCE(col_description(a.attrelid, a.attnum), '') AS column_comment,
+      (
+        SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder)
+        FROM pg_enum e
+        WHERE e.enumtypid = CASE
+          WHEN t.typtype = 'd' THEN t.typbasetype
+          WHEN t.typcategory = 'A' THEN t.typelem
+          ELSE t.oid
+        END
+      ) AS enum_labels,
+      (
+        SELECT sn.nspname || '.' || s.relname
+        FROM pg_depend d
+        JOIN pg_class s ON s.oid = d.objid AND s.relkind = 'S'
+        JOIN pg_namespace sn ON sn.oid = s.relnamespace
+        WHERE d.classid = 'pg_class'::regclass
+          AND d.refclassid = 'pg_class'::regclass
+          AND d.refobjid = a.attrelid
+          AND d.refobjsubid = a.attnum
+          AND d.deptype IN ('a', 'i')
+        LIMIT 1
+      ) AS owned_sequence
+    FROM
+      pg_attribute a
+    JOIN
+      pg_type t ON t.oid = a.atttypid
+    LEFT JOIN
+      pg_attrdef ad ON ad.adrelid = a.attrelid AND ad.adnum = a.attnum
+    WHERE
+      a.attrelid = $1::oid
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+    ORDER BY
+      a.attnum
   `;
 
-    const columnsResult = await connectionManager.executeQuery(database, columnsQuery, [schema, table]);
+    const columnsResult = await connectionManager.executeQuery(database, columnsQuery, [oid]);
 
-    const columns: ColumnInfo[] = columnsResult.rows.map(row => ({
-        name: row.column_name as string,
-        type: row.data_type as string,
-        nullable: row.is_nullable === 'YES',
-        default: row.column_default as string | null,
-        extra: row.extra as string,
-        comment: (row.column_comment as string) || ''
-    }));
+    // Hidden columns are left out, together with the keys, constraints and indexes that use them
+    const hiddenColumns = columnsResult.rows
+        .map(row => row.column_name as string)
+        .filter(name => policy.columnAction(database, schema, table, name) === 'hide');
+
+    const columns: ColumnInfo[] = columnsResult.rows.filter(row => !hiddenColumns.includes(row.column_name as string)).map(row => {
+        const identity = row.identity as string;
+        const generated = row.generated as string;
+        const sequence = row.owned_sequence as string | null;
+
+        const column: ColumnInfo = {
+            name: row.column_name as string,
+            type: row.data_type as string,
+            nullable: row.nullable as boolean,
+            default: row.column_default as string | null,
+            extra: columnExtra(identity, generated, sequence),
+            comment: row.column_comment as string
+        };
+
+        if (identity) {
+            column.identity = identity === 'a' ? 'always' : 'by default';
+        }
+
+        if (row.generation_expression) {
+            column.generatedExpression = row.generation_expression as string;
+        }
+
+        if (sequence) {
+            column.sequence = sequence;
+        }
+
+        if (Array.isArray(row.enum_labels)) {
+            column.enumLabels = row.enum_labels as string[];
+        }
+
+        if (policy.columnAction(database, schema, table, column.name) === 'mask') {
+            column.masked = true;
+        }
+
+        return column;
+    });
 
     // Get primary key
     const pkQuery = `
-    SELECT 
-      kcu.column_name
-    FROM 
-      information_schema.table_constraints tc
-    JOIN 
-      information_schema.key_column_usage kcu 
-      ON tc.constraint_name = kcu.constraint_name 
-      AND tc.table_schema = kcu.table_schema
-    WHERE 
-      tc.constraint_type = 'PRIMARY KEY' 
-      AND tc.table_schema = $1 
-      AND tc.table_name = $2
-    ORDER BY 
-      kcu.ordinal_position
+    SELECT
+      a.attname AS column_name
+    FROM
+      pg_constraint con
+    CROSS JOIN LATERAL
+      unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+    JOIN
+      pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+    WHERE
+      con.conrelid = $1::oid
+      AND con.contype = 'p'
+    ORDER BY
+      k.ord
   `;
 
-    const pkResult = await connectionManager.executeQuery(database, pkQuery, [schema, table]);
-    const primaryKey = pkResult.rows.map(row => row.column_name as string);
+    const pkResult = await connectionManager.executeQuery(database, pkQuery, [oid]);
+    const keyColumns = pkResult.rows.map(row => row.column_name as string);
+    const primaryKey = keyColumns.some(column => hiddenColumns.includes(column)) ? [] : keyColumns;
 
-    // Get foreign keys
+    // Get foreign keys; conkey and confkey are unnested together so composite keys stay paired
     const fkQuery = `
     SELECT
-      kcu.column_name,
-      ccu.table_name AS referenced_table_name,
-      ccu.column_name AS referenced_column_name,
-      tc.constraint_name
-    FROM 
-      information_schema.table_constraints AS tc 
-    JOIN 
-      information_schema.key_column_usage AS kcu
-      ON tc.constraint_name = kcu.constraint_name
-      AND tc.table_schema = kcu.table_schema
-    JOIN 
-      information_schema.constraint_column_usage AS ccu
-      ON ccu.constraint_name = tc.constraint_name
-      AND ccu.table_schema = tc.table_schema
-    WHERE 
-      tc.constraint_type = 'FOREIGN KEY' 
-      AND tc.table_schema = $1
-      AND tc.table_name = $2
+      con.conname AS constraint_name,
+      a.attname AS column_name,
+      rn.nspname AS referenced_schema,
+      rc.relname AS referenced_table_name,
+      ra.attname AS referenced_column_name
+    FROM
+      pg_constraint con
+    CROSS JOIN LATERAL
+      unnest(con.conkey, con.confkey) WITH ORDINALITY AS k(attnum, refattnum, ord)
+    JOIN
+      pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+    JOIN
+      pg_class rc ON rc.oid = con.confrelid
+    JOIN
+      pg_namespace rn ON rn.oid = rc.relnamespace
+    JOIN
+      pg_attribute ra ON ra.attrelid = con.confrelid AND ra.attnum = k.refattnum
+    WHERE
+      con.conrelid = $1::oid
+      AND con.contype = 'f'
+    ORDER BY
+      con.conname, k.ord
   `;
 
-    const fkResult = await connectionManager.executeQuery(database, fkQuery, [schema, table]);
+    const fkResult = await connectionManager.executeQuery(database, fkQuery, [oid]);
 
-    const foreignKeys: ForeignKeyInfo[] = fkResult.rows.map(row => ({
+    const allForeignKeys: ForeignKeyInfo[] = fkResult.rows.map(row => ({
         name: row.constraint_name as string,
         column: row.column_name as string,
+        referencedSchema: row.referenced_schema as string,
         referencedTable: row.referenced_table_name as string,
         referencedColumn: row.referenced_column_name as string
     }));
 
-    // Get indexes (simplified for Postgres using pg_indexes)
+    // Foreign keys are dropped as a whole when any column is hidden or the referenced table is denied
+    const hiddenForeignKeys = new Set(allForeignKeys
+        .filter(fk => hiddenColumns.includes(fk.column)
+            || policy.isTableDenied(database, fk.referencedSchema, fk.referencedTable)
+            || policy.columnAction(database, fk.referencedSchema, fk.referencedTable, fk.referencedColumn) === 'hide')
+        .map(fk => fk.name));
+    const foreignKeys = allForeignKeys.filter(fk => !hiddenForeignKeys.has(fk.name));
+
+    // Get check, unique and exclusion constraints
+    const constraintsQuery = `
+    SELECT
+      con.conname AS constraint_name,
+      con.contype::text AS constraint_type,
+      pg_get_constraintdef(con.oid, true) AS definition,
+      con.condeferrable AS deferrable,
+      ARRAY(
+        SELECT a.attname::text
+        FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+        ORDER BY k.ord
+      ) AS columns
+    FROM
+      pg_constraint con
+    WHERE
+      con.conrelid = $1::oid
+      AND con.contype IN ('c', 'u', 'x')
+    ORDER BY
+      con.conname
+  `;
+
+    const constraintsResult = await connectionManager.executeQuery(database, constraintsQuery, [oid]);
+
+    const constraints: ConstraintInfo[] = constraintsResult.rows
+        .map(row => ({
+            name: row.constraint_name as string,
+            type: CONSTRAINT_TYPES[row.constraint_type as string],
+            columns: row.columns as string[],
+            definition: row.definition as string,
+            deferrable: row.deferrable as boolean
+        }))
+        .filter(constraint => !constraint.columns.some(column => hiddenColumns.includes(column)));
+
+    // Get indexes; plain columns are reported by bare name like the column list, expressions as pg_get_indexdef renders them
     const indexQuery = `
     SELECT
-      indexname as index_name,
-      indexdef as index_definition
+      ic.relname AS index_name,
+      am.amname AS access_method,
+      i.indisunique AS is_unique,
+      i.indisprimary AS is_primary,
+      i.indnkeyatts AS key_count,
+      pg_get_expr(i.indpred, i.indrelid, true) AS predicate,
+      pg_get_indexdef(i.indexrelid) AS definition,
+      ARRAY(
+        SELECT CASE
+          WHEN i.indkey[k.n - 1] = 0 THEN pg_get_indexdef(i.indexrelid, k.n, true)
+          ELSE (
+            SELECT a.attname::text
+            FROM pg_attribute a
+            WHERE a.attrelid = i.indrelid AND a.attnum = i.indkey[k.n - 1]
+          )
+        END
+        FROM generate_series(1, i.indnatts::int) AS k(n)
+        ORDER BY k.n
+      ) AS parts,
+      ARRAY(
+        SELECT i.indkey[k.n - 1] = 0
+        FROM generate_series(1, i.indnatts::int) AS k(n)
+        ORDER BY k.n
+      ) AS expression_flags
     FROM
-      pg_indexes
+      pg_index i
+    JOIN
+      pg_class ic ON ic.oid = i.indexrelid
+    JOIN
+      pg_am am ON am.oid = ic.relam
     WHERE
-      schemaname = $1
-      AND tablename = $2
+      i.indrelid = $1::oid
+    ORDER BY
+      ic.relname
   `;
 
-    const indexResult = await connectionManager.executeQuery(database, indexQuery, [schema, table]);
+    const indexResult = await connectionManager.executeQuery(database, indexQuery, [oid]);
 
     const indexes: IndexInfo[] = indexResult.rows.map(row => {
-        const def = row.index_definition as string;
-        const isUnique = def.includes('UNIQUE INDEX');
-        // Extract columns from definition like "CREATE INDEX ... ON ... (col1, col2)"
-        const match = def.match(/\(([^)]+)\)/);
-        const cols = match ? match[1].split(',').map(c => c.trim()) : [];
+        const parts = row.parts as string[];
+        const expressionFlags = row.expression_flags as boolean[];
+        const keyCount = row.key_count as number;
+        const keys = parts.slice(0, keyCount);
 
         return {
             name: row.index_name as string,
-            columns: cols,
-            unique: isUnique,
-            type: 'BTREE' // Default assumption or parse from def
+            columns: keys,
+            expressions: keys.filter((_, index) => expressionFlags[index]),
+            include: parts.slice(keyCount),
+            predicate: row.predicate as string | null,
+            unique: row.is_unique as boolean,
+            primary: row.is_primary as boolean,
+            type: row.access_method as string,
+            definition: row.definition as string
         };
-    });
+    }).filter(index => ![...index.columns, ...index.include].some(part => mentionsColumn(part, hiddenColumns)));
 
-    return {
+    const description: TableDescription = {
         table,
         schema,
+        comment: tableRow.table_comment as string,
         columns,
         primaryKey,
         foreignKeys,
+        constraints,
         indexes
     };
+
+    if (tableRow.partstrat) {
+        const partitionsQuery = `
+      SELECT
+        n.nspname AS partition_schema,
+        c.relname AS partition_table,
+        pg_get_expr(c.relpartbound, c.oid) AS partition_bound
+      FROM
+        pg_inherits inh
+      JOIN
+        pg_class c ON c.oid = inh.inhrelid
+      JOIN
+        pg_namespace n ON n.oid = c.relnamespace
+      WHERE
+        inh.inhparent = $1::oid
+      ORDER BY
+        n.nspname, c.relname
+    `;
+
+        const partitionsResult = await connectionManager.executeQuery(database, partitionsQuery, [oid]);
+
+        description.partitioning = {
+            strategy: PARTITION_STRATEGIES[tableRow.partstrat as string],
+            // pg_get_partkeydef returns e.g. "RANGE (created_at)"
+            key: (tableRow.partition_key as string).replace(/^\w+ \((.*)\)$/, '$1'),
+            partitions: partitionsResult.rows
+                .map(row => ({
+                    schema: row.partition_schema as string,
+                    table: row.partition_table as string,
+                    bound: row.partition_bound as string
+                }))
+                .filter(partition => !policy.isTableDenied(database, partition.schema, partition.table))
+        };
+    }
+
+    if (tableRow.parent_table) {
+        description.partitionOf = {
+            schema: tableRow.parent_schema as string,
+            table: tableRow.parent_table as string,
+            bound: tableRow.partition_bound as string
+        };
+    }
+
+    return description;
 }
@@ -0,0 +1,435 @@
+import { ConnectionManager, DatabaseType } from '../connection-manager.js';
+import { LIMITS, RelationKind } from '../types.js';
+import { mentionsColumn } from './describe-table.js';
+import { RELATION_KIND_SQL } from './list-tables.js';
+
+export interface DiffSchemaInput {
+    source?: DatabaseType;
+    target: DatabaseType;
+    sourceSchema?: string;
+    targetSchema?: string;
+}
+
+export interface ColumnSnapshot {
+    name: string;
+    type: string;
+    nullable: boolean;
+    default: string | null;
+    identity: string | null; // always, by default
+    generated: string | null; // Generation expression
+}
+
+export interface IndexSnapshot {
+    name: string;
+    definition: string; // Access method, keys and predicate, e.g. "btree (email) WHERE (deleted_at IS NULL)"
+    unique: boolean;
+    primary: boolean;
+}
+
+export interface ConstraintSnapshot {
+    name: string;
+    type: 'primary key' | 'unique' | 'check' | 'exclusion' | 'foreign key';
+    definition: string;
+}
+
+export interface PropertyChange {
+    property: string;
+    source: unknown;
+    target: unknown;
+}
+
+export interface ObjectChange {
+    name: string;
+    changes: PropertyChange[];
+}
+
+/**
+ * Objects matched by name. Added objects exist only in the target, removed objects only in the source.
+ */
+export interface ObjectDiff<T> {
+    added: T[];
+    removed: T[];
+    changed: ObjectChange[];
+}
+
+export interface TableDiff {
+    table: string;
+    kind?: PropertyChange;
+    columns: ObjectDiff<ColumnSnapshot>;
+    indexes: ObjectDiff<IndexSnapshot>;
+    constraints: ObjectDiff<ConstraintSnapshot>;
+    foreignKeys: ObjectDiff<ConstraintSnapshot>;
+}
+
+export interface SchemaDiffResult {
+    source: { database: DatabaseType; schema: string };
+    target: { database: DatabaseType; schema: string };
+    identical: boolean;
+    tables: {
+        added: Array<{ name: string; kind: RelationKind }>;
+        removed: Array<{ name: string; kind: RelationKind }>;
+        changed: TableDiff[];
+    };
+    summary: string;
+}
+
+interface TableSnapshot {
+    name: string;
+    kind: RelationKind;
+    columns: ColumnSnapshot[];
+    indexes: IndexSnapshot[];
+    constraints: ConstraintSnapshot[];
+    foreignKeys: ConstraintSnapshot[];
+}
+
+const CONSTRAINT_TYPES: Record<string, ConstraintSnapshot['type']> = {
+    p: 'primary key',
+    u: 'unique',
+    c: 'check',
+    x: 'exclusion',
+    f: 'foreign key'
+};
+
+const IDENTITY_KINDS: Record<string, string> = {
+    a: 'always',
+    d: 'by default'
+};
+
+/**
+ * Removes qualifications with the compared schema, so the same object in two schemas compares equal
+ */
+function unqualify(text: string | null, schema: string): string | null {
+    if (text === null) {
+        return null;
+    }
+
+    const escaped = schema.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return text.replace(new RegExp(`(^|[^\\w."])("${escaped}"|${escaped})\\.`, 'g'), '$1');
+}
+
+/**
+ * Reads tables, columns, indexes and constraints of a schema. Partitions are skipped, like in search_schema.
+ */
+async function loadSnapshot(
+    connectionManager: ConnectionManager,
+    database: DatabaseType,
+    schema: string
+): Promise<Map<string, TableSnapshot>> {
+    const relationFilter = `
+      n.nspname = $1
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND NOT c.relispartition`;
+
+    const tablesQuery = `
+    SELECT
+      c.relname AS table_name,
+      ${RELATION_KIND_SQL} AS kind
+    FROM
+      pg_class c
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    WHERE ${relationFilter}
+  `;
+
+    const columnsQuery = `
+    SELECT
+      c.relname AS table_name,
+      a.attname::text AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS data_type,
+      NOT a.attnotnull AS nullable,
+      CASE WHEN a.attgenerated = '' THEN pg_get_expr(ad.adbin, ad.adrelid) END AS column_default,
+      CASE WHEN a.attgenerated <> '' THEN pg_get_expr(ad.adbin, ad.adrelid) END AS generation_expression,
+      a.attidentity::text AS identity
+    FROM
+      pg_attribute a
+    JOIN
+      pg_class c ON c.oid = a.attrelid
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN
+      pg_attrdef ad ON ad.adrelid = a.attrelid AND ad.adnum = a.attnum
+    WHERE ${relationFilter}
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+    ORDER BY
+      c.relname, a.attnum
+  `;
+
+    // The definition after USING leaves out the index, schema and table names
+    const indexesQuery = `
+    SELECT
+      c.relname AS table_name,
+      ic.relname AS index_name,
+      regexp_replace(pg_get_indexdef(i.indexrelid), '^.*? USING ', '') AS definition,
+      i.indisunique AS is_unique,
+      i.indisprimary AS is_primary
+    FROM
+      pg_index i
+    JOIN
+      pg_class ic ON ic.oid = i.indexrelid
+    JOIN
+      pg_class c ON c.oid = i.indrelid
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    WHERE ${relationFilter}
+    ORDER BY
+      c.relname, ic.relname
+  `;
+
+    const constraintsQuery = `
+    SELECT
+      c.relname AS table_name,
+      con.conname AS constraint_name,
+      con.contype::text AS constraint_type,
+      pg_get_constraintdef(con.oid, true) AS definition
+    FROM
+      pg_constraint con
+    JOIN
+      pg_class c ON c.oid = con.conrelid
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    WHERE ${relationFilter}
+      AND con.contype IN ('p', 'u', 'c', 'x', 'f')
+    ORDER BY
+      c.relname, con.conname
+  `;
+
+    const policy = connectionManager.getAccessPolicy();
+
+    policy.assertSchemaAllowed(database, schema);
+
+    // Denied tables are left out; hidden columns are left out with the indexes and constraints that use them
+    const tables = new Map<string, TableSnapshot>();
+    const hiddenColumns = new Map<string, string[]>();
+    const tablesResult = await connectionManager.executeQuery(database, tablesQuery, [schema], LIMITS.QUERY_MAX);
+
+    for (const row of tablesResult.rows) {
+        const name = row.table_name as string;
+
+        if (policy.isTableDenied(database, schema, name)) {
+            continue;
+        }
+
+        tables.set(name, { name, kind: row.kind as RelationKind, columns: [], indexes: [], constraints: [], foreignKeys: [] });
+    }
+
+    const columnsResult = await connectionManager.executeQuery(database, columnsQuery, [schema], LIMITS.QUERY_MAX);
+
+    for (const row of columnsResult.rows) {
+        const tableName = row.table_name as string;
+
+        if (policy.columnAction(database, schema, tableName, row.column_name as string) === 'hide') {
+            hiddenColumns.set(tableName, [...hiddenColumns.get(tableName) ?? [], row.column_name as string]);
+            continue;
+        }
+
+        tables.get(tableName)?.columns.push({
+            name: row.column_name as string,
+            type: unqualify(row.data_type as string, schema)!,
+            nullable: row.nullable as boolean,
+            default: unqualify(row.column_default as string | null, schema),
+            identity: IDENTITY_KINDS[row.identity as string] ?? null,
+            generated: unqualify(row.generation_expression as string | null, schema)
+        });
+    }
+
+    const indexesResult = await connectionManager.executeQuery(database, indexesQuery, [schema], LIMITS.QUERY_MAX);
+
+    for (const row of indexesResult.rows) {
+        if (mentionsColumn(row.definition as string, hiddenColumns.get(row.table_name as string) ?? [])) {
+            continue;
+        }
+
+        tables.get(row.table_name as string)?.indexes.push({
+            name: row.index_name as string,
+            definition: unqualify(row.definition as string, schema)!,
+            unique: row.is_unique as boolean,
+            primary: row.is_primary as boolean
+        });
+    }
+
+    const constraintsResult = await connectionManager.executeQuery(database, constraintsQuery, [schema], LIMITS.QUERY_MAX);
+
+    for (const row of constraintsResult.rows) {
+        if (mentionsColumn(row.definition as string, hiddenColumns.get(row.table_name as string) ?? [])) {
+            continue;
+        }
+
+        const table = tables.get(row.table_name as string);
+        const type = CONSTRAINT_TYPES[row.constraint_type as string];
+        const constraint = { name: row.constraint_name as string, type, definition: unqualify(row.definition as string, schema)! };
+
+        if (type === 'foreign key') {
+            table?.foreignKeys.push(constraint);
+        } else {
+            table?.constraints.push(constraint);
+        }
+    }
+
+    const truncated = [tablesResult, columnsResult, indexesResult, constraintsResult].some(result => result.truncated);
+
+    if (truncated) {
+        throw new Error(
+            `Schema "${schema}" in database "${database}" is too large to compare (more than ${LIMITS.QUERY_MAX} objects of one kind)`
+        );
+    }
+
+    return tables;
+}
+
+function diffObjects<T extends { name: string }>(source: T[], target: T[], properties: Array<keyof T & string>): ObjectDiff<T> {
+    const sourceByName = new Map(source.map(item => [item.name, item]));
+    const targetByName = new Map(target.map(item => [item.name, item]));
+    const diff: ObjectDiff<T> = {
+        added: target.filter(item => !sourceByName.has(item.name)),
+        removed: source.filter(item => !targetByName.has(item.name)),
+        changed: []
+    };
+
+    for (const item of source) {
+        const other = targetByName.get(item.name);
+
+        if (!other) {
+            continue;
+        }
+
+        const changes = properties
+            .filter(property => item[property] !== other[property])
+            .map(property => ({ property, source: item[property], target: other[property] }));
+
+        if (changes.length > 0) {
+            diff.changed.push({ name: item.name, changes });
+        }
+    }
+
+    return diff;
+}
+
+function isEmpty(diff: ObjectDiff<unknown>): boolean {
+    return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+function describeValue(value: unknown): string {
+    return value === null || value === undefined ? 'none' : String(value);
+}
+
+function describeColumn(column: ColumnSnapshot): string {
+    return [
+        column.type,
+        column.nullable ? 'NULL' : 'NOT NULL',
+        column.default !== null ? `DEFAULT ${column.default}` : '',
+        column.identity !== null ? `GENERATED ${column.identity.toUpperCase()} AS IDENTITY` : '',
+        column.generated !== null ? `GENERATED ALWAYS AS ${column.generated}` : ''
+    ].filter(Boolean).join(' ');
+}
+
+/**
+ * Human-readable report: + added in the target, - removed from the target, ~ changed
+ */
+function summarize(result: Omit<SchemaDiffResult, 'summary'>): string {
+    const { source, target, tables } = result;
+    const lines = [`Schema diff: ${source.database}.${source.schema} -> ${target.database}.${target.schema}`];
+
+    if (result.identical) {
+        lines.push('No differences.');
+        return lines.join('\n');
+    }
+
+    lines.push(`Tables: ${tables.added.length} added, ${tables.removed.length} removed, ${tables.changed.length} changed`, '');
+
+    for (const table of tables.added) {
+        lines.push(`+ ${table.kind} ${table.name}`);
+    }
+
+    for (const table of tables.removed) {
+        lines.push(`- ${table.kind} ${table.name}`);
+    }
+
+    const objectLines = <T extends { name: string }>(
+        label: string,
+        diff: ObjectDiff<T>,
+        describe: (item: T) => string
+    ): string[] => [
+        ...diff.added.map(item => `    + ${label} ${item.name}: ${describe(item)}`),
+        ...diff.removed.map(item => `    - ${label} ${item.name}: ${describe(item)}`),
+        ...diff.changed.map(change => `    ~ ${label} ${change.name}: ${change.changes
+            .map(entry => `${entry.property} ${describeValue(entry.source)} -> ${describeValue(entry.target)}`)
+            .join('; ')}`)
+    ];
+
+    for (const table of tables.changed) {
+        lines.push(`~ ${table.table}`);
+
+        if (table.kind) {
+            lines.push(`    ~ kind ${table.kind.source} -> ${table.kind.target}`);
+        }
+
+        lines.push(
+            ...objectLines('column', table.columns, describeColumn),
+            ...objectLines('index', table.indexes, index => index.definition),
+            ...objectLines('constraint', table.constraints, constraint => constraint.definition),
+            ...objectLines('foreign key', table.foreignKeys, constraint => constraint.definition)
+        );
+    }
+
+    return lines.join('\n');
+}
+
+export async function diffSchema(
+    connectionManager: ConnectionManager,
+    input: DiffSchemaInput
+): Promise<SchemaDiffResult> {
+    const sourceDatabase = input.source || connectionManager.getDefaultDatabase();
+    const targetDatabase = input.target;
+    const sourceSchema = input.sourceSchema || 'public';
+    const targetSchema = input.targetSchema || sourceSchema;
+
+    const sourceTables = await loadSnapshot(connectionManager, sourceDatabase, sourceSchema);
+    const targetTables = await loadSnapshot(connectionManager, targetDatabase, targetSchema);
+
+    const added = Array.from(targetTables.values())
+        .filter(table => !sourceTables.has(table.name))
+        .map(table => ({ name: table.name, kind: table.kind }));
+    const removed = Array.from(sourceTables.values())
+        .filter(table => !targetTables.has(table.name))
+        .map(table => ({ name: table.name, kind: table.kind }));
+    const changed: TableDiff[] = [];
+
+    for (const sourceTable of sourceTables.values()) {
+        const targetTable = targetTables.get(sourceTable.name);
+
+        if (!targetTable) {
+            continue;
+        }
+
+        const diff: TableDiff = {
+            table: sourceTable.name,
+            columns: diffObjects(sourceTable.columns, targetTable.columns, ['type', 'nullable', 'default', 'identity', 'generated']),
+            indexes: diffObjects(sourceTable.indexes, targetTable.indexes, ['definition', 'unique', 'primary']),
+            constraints: diffObjects(sourceTable.constraints, targetTable.constraints, ['type', 'definition']),
+            foreignKeys: diffObjects(sourceTable.foreignKeys, targetTable.foreignKeys, ['definition'])
+        };
+
+        if (sourceTable.kind !== targetTable.kind) {
+            diff.kind = { property: 'kind', source: sourceTable.kind, target: targetTable.kind };
+        }
+
+        if (diff.kind || !isEmpty(diff.columns) || !isEmpty(diff.indexes) || !isEmpty(diff.constraints) || !isEmpty(diff.foreignKeys)) {
+            changed.push(diff);
+        }
+    }
+
+    const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+    added.sort(byName);
+    removed.sort(byName);
+    changed.sort((a, b) => a.table.localeCompare(b.table));
+
+    const result = {
+        source: { database: sourceDatabase, schema: sourceSchema },
+        target: { database: targetDatabase, schema: targetSchema },
+        identical: added.length === 0 && removed.length === 0 && changed.length === 0,
+        tables: { added, removed, changed }
+    };
+
+    return { ...result, summary: summarize(result) };
+}
@@ -0,0 +1,311 @@
+import { ConnectionManager, DatabaseType } from '../connection-manager.js';
+import { ForeignKeyEdge, loadForeignKeys, qualifiedName, splitQualifiedName } from '../foreign-key-graph.js';
+import { LIMITS } from '../types.js';
+
+export const DIAGRAM_FORMATS = ['mermaid', 'dot'] as const;
+export type DiagramFormat = typeof DIAGRAM_FORMATS[number];
+
+export interface ErDiagramInput {
+    database?: DatabaseType;
+    schema?: string;
+    tables?: string[];
+    format?: DiagramFormat;
+}
+
+export interface ErDiagramResult {
+    format: DiagramFormat;
+    tables: string[];
+    relationships: number;
+    diagram: string;
+}
+
+interface DiagramColumn {
+    name: string;
+    type: string;
+    notNull: boolean;
+    keys: Array<'PK' | 'FK' | 'UK'>;
+}
+
+interface DiagramTable {
+    name: string; // Schema-qualified
+    columns: DiagramColumn[];
+}
+
+/**
+ * Cardinality of a foreign key at both ends
+ */
+interface Cardinality {
+    many: boolean; // Several referencing rows can point at the same referenced row
+    optional: boolean; // The foreign key columns are nullable, so a referencing row may have no match
+}
+
+function cardinality(edge: ForeignKeyEdge, tables: Map<string, DiagramTable>): Cardinality {
+    const columns = tables.get(edge.from)?.columns ?? [];
+    const optional = edge.columns.some(pair => !columns.find(column => column.name === pair.column)?.notNull);
+
+    return { many: !edge.uniqueColumns, optional };
+}
+
+/**
+ * Mermaid identifiers only allow letters, digits, `_` and `-`; types may also contain brackets
+ */
+function mermaidWord(text: string, extra = ''): string {
+    return text.replace(/\s+/g, '_').replace(new RegExp(`[^A-Za-z0-9_\\-${extra}]`, 'g'), '_');
+}
+
+/**
+ * Writes type modifiers as `_`-separated suffixes, so `numeric(12,2)` becomes `numeric_12_2`
+ */
+function mermaidType(type: string): string {
+    const withModifiers = type.replace(/\(([^)]*)\)/g, (_, modifiers: string) => `_${modifiers.split(/\s*,\s*/).join('_')}`);
+    return mermaidWord(withModifiers, '\\[\\]');
+}
+
+function mermaidString(text: string): string {
+    return `"${text.replace(/"/g, "'")}"`;
+}
+
+/**
+ * Names entities by table name, or by schema and table name when a name occurs in several schemas
+ */
+function entityNames(tables: DiagramTable[]): Map<string, string> {
+    const counts = new Map<string, number>();
+
+    for (const table of tables) {
+        const name = splitQualifiedName(table.name).table;
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+
+    return new Map(tables.map(table => {
+        const { schema, table: name } = splitQualifiedName(table.name);
+        return [table.name, mermaidWord(counts.get(name)! > 1 ? `${schema}_${name}` : name)];
+    }));
+}
+
+function renderMermaid(tables: DiagramTable[], edges: ForeignKeyEdge[]): string {
+    const names = entityNames(tables);
+    const tableMap = new Map(tables.map(table => [table.name, table]));
+    const lines = ['erDiagram'];
+
+    for (const table of tables) {
+        lines.push(`    ${names.get(table.name)} {`);
+
+        for (const column of table.columns) {
+            const keys = column.keys.length > 0 ? ` ${column.keys.join(', ')}` : '';
+            lines.push(`        ${mermaidType(column.type)} ${mermaidWord(column.name)}${keys}`);
+        }
+
+        lines.push('    }');
+    }
+
+    // Crow's foot markers: the referencing side is "zero or many" (or "zero or one" for a unique key),
+    // the referenced side "exactly one" (or "zero or one" for nullable foreign key columns)
+    for (const edge of edges) {
+        const { many, optional } = cardinality(edge, tableMap);
+        const left = many ? '}o' : '|o';
+        const right = optional ? 'o|' : '||';
+        const label = mermaidString(edge.columns.map(pair => pair.column).join(', '));
+
+        lines.push(`    ${names.get(edge.from)} ${left}--${right} ${names.get(edge.to)} : ${label}`);
+    }
+
+    return lines.join('\n');
+}
+
+function dotString(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function renderDot(tables: DiagramTable[], edges: ForeignKeyEdge[]): string {
+    const tableMap = new Map(tables.map(table => [table.name, table]));
+    const port = (table: string, column: string): string =>
+        `c${tableMap.get(table)!.columns.findIndex(entry => entry.name === column)}`;
+    const lines = [
+        'digraph er {',
+        '    graph [rankdir=LR];',
+        '    node [shape=plaintext, fontname="Helvetica"];',
+        '    edge [fontname="Helvetica", fontsize=10, dir=both];'
+    ];
+
+    for (const table of tables) {
+        const rows = table.columns.map((column, index) => {
+            const keys = column.keys.length > 0 ? ` <B>${column.keys.join(', ')}</B>` : '';
+            return `<TR><TD PORT="c${index}" ALIGN="LEFT">${escapeHtml(column.name)}: ${escapeHtml(column.type)}${keys}</TD></TR>`;
+        });
+
+        lines.push(
+            `    ${dotString(table.name)} [label=<<TABLE BORDER="0" CELLBORDER="1" CELLSPACING="0">` +
+            `<TR><TD BGCOLOR="lightgrey"><B>${escapeHtml(table.name)}</B></TD></TR>${rows.join('')}</TABLE>>];`
+        );
+    }
+
+    // Edges run from the first referencing column to the first referenced column, with crow's foot arrows
+    for (const edge of edges) {
+        const { many, optional } = cardinality(edge, tableMap);
+        const first = edge.columns[0];
+        const from = `${dotString(edge.from)}:${port(edge.from, first.column)}`;
+        const to = `${dotString(edge.to)}:${port(edge.to, first.referencedColumn)}`;
+        const attributes = [
+            `label=${dotString(`${edge.name}\n${many ? 'N:1' : '1:1'}`)}`,
+            `arrowtail=${many ? 'crowodot' : 'teeodot'}`,
+            `arrowhead=${optional ? 'teeodot' : 'teetee'}`
+        ];
+
+        lines.push(`    ${from} -> ${to} [${attributes.join(', ')}];`);
+    }
+
+    lines.push('}');
+
+    return lines.join('\n');
+}
+
+/**
+ * Loads the columns of the selected tables: every table of the schema (partitions, views and materialized
+ * views left out), or the named tables of any kind
+ */
+async function loadTables(
+    connectionManager: ConnectionManager,
+    database: DatabaseType,
+    schema: string,
+    names: string[] | null
+): Promise<DiagramTable[]> {
+    const query = `
+    SELECT
+      n.nspname AS table_schema,
+      c.relname AS table_name,
+      a.attname::text AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS data_type,
+      a.attnotnull AS not_null,
+      EXISTS (
+        SELECT 1 FROM pg_constraint con
+        WHERE con.conrelid = c.oid AND con.contype = 'p' AND a.attnum = ANY(con.conkey)
+      ) AS is_primary,
+      EXISTS (
+        SELECT 1 FROM pg_constraint con
+        WHERE con.conrelid = c.oid AND con.contype = 'f' AND a.attnum = ANY(con.conkey)
+      ) AS is_foreign,
+      EXISTS (
+        SELECT 1 FROM pg_constraint con
+        WHERE con.conrelid = c.oid AND con.contype = 'u' AND a.attnum = ANY(con.conkey)
+      ) AS is_unique
+    FROM
+      pg_class c
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN
+      pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    WHERE
+      c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND CASE
+        WHEN $2::text[] IS NULL THEN n.nspname = $1 AND c.relkind IN ('r', 'p', 'f') AND NOT c.relispartition
+        ELSE n.nspname || '.' || c.relname = ANY($2::text[])
+      END
+    ORDER BY
+      n.nspname, c.relname, a.attnum
+  `;
+
+    const result = await connectionManager.executeQuery(database, query, [schema, names], LIMITS.QUERY_MAX);
+    const policy = connectionManager.getAccessPolicy();
+
+    if (result.truncated) {
+        throw new Error(`Too many columns to draw (more than ${LIMITS.QUERY_MAX}). Select fewer tables.`);
+    }
+
+    const tables = new Map<string, DiagramTable>();
+
+    for (const row of result.rows) {
+        const tableSchema = row.table_schema as string;
+        const tableName = row.table_name as string;
+
+        if (policy.isTableDenied(database, tableSchema, tableName)) {
+            continue;
+        }
+
+        const name = qualifiedName(tableSchema, tableName);
+        const table = tables.get(name) ?? { name, columns: [] };
+        tables.set(name, table);
+
+        if (row.column_name === null
+            || policy.columnAction(database, tableSchema, tableName, row.column_name as string) === 'hide') {
+            continue;
+        }
+
+        const keys: DiagramColumn['keys'] = [];
+
+        if (row.is_primary) {
+            keys.push('PK');
+        }
+        if (row.is_foreign) {
+            keys.push('FK');
+        }
+        if (row.is_unique) {
+            keys.push('UK');
+        }
+
+        table.columns.push({
+            name: row.column_name as string,
+            type: row.data_type as string,
+            notNull: row.not_null as boolean,
+            keys
+        });
+    }
+
+    return Array.from(tables.values());
+}
+
+export async function erDiagram(
+    connectionManager: ConnectionManager,
+    input: ErDiagramInput
+): Promise<ErDiagramResult> {
+    const database = input.database || connectionManager.getDefaultDatabase();
+    const schema = input.schema || 'public';
+    const format = input.format || 'mermaid';
+
+    // Bare table names are looked up in the schema
+    const names = input.tables && input.tables.length > 0
+        ? input.tables.map(table => table.includes('.') ? table : qualifiedName(schema, table))
+        : null;
+
+    const policy = connectionManager.getAccessPolicy();
+
+    for (const name of names ?? []) {
+        const { schema: tableSchema, table } = splitQualifiedName(name);
+        policy.assertTableAllowed(database, tableSchema, table);
+    }
+
+    if (!names) {
+        policy.assertSchemaAllowed(database, schema);
+    }
+
+    const tables = await loadTables(connectionManager, database, schema, names);
+
+    if (names) {
+        const missing = names.filter(name => !tables.some(table => table.name === name));
+
+        if (missing.length > 0) {
+            throw new Error(`Table ${missing.map(name => `"${name}"`).join(', ')} not found`);
+        }
+    } else if (tables.length === 0) {
+        throw new Error(`Schema "${schema}" has no tables`);
+    }
+
+    // Only foreign keys between drawn tables
+    const selected = new Set(tables.map(table => table.name));
+    const edges = (await loadForeignKeys(connectionManager, database))
+        .filter(edge => selected.has(edge.from) && selected.has(edge.to));
+
+    return {
+        format,
+        tables: tables.map(table => table.name),
+        relationships: edges.length,
+        diagram: format === 'dot' ? renderDot(tables, edges) : renderMermaid(tables, edges)
+    };
+}
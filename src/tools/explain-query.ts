@@ -0,0 +1,145 @@
+import { ConnectionManager, DatabaseType } from '../connection-manager.js';
+
+export interface ExplainQueryInput {
+    query: string;
+    database?: DatabaseType;
+    analyze?: boolean;
+}
+
+export interface PlanNode {
+    nodeType: string;
+    relation?: string;
+    indexName?: string;
+    joinType?: string;
+    startupCost: number;
+    totalCost: number;
+    estimatedRows: number;
+    actualRows?: number;
+    actualLoops?: number;
+    actualTimeMs?: number;
+    filter?: string;
+    rowsRemovedByFilter?: number;
+    children: PlanNode[];
+}
+
+export interface ExplainResult {
+    database: string;
+    analyzed: boolean;
+    totalCost: number;
+    estimatedRows: number;
+    planningTimeMs?: number;
+    executionTimeMs?: number;
+    plan: PlanNode;
+    warnings: string[];
+}
+
+// Sequential scans expected to read fewer rows than this are not worth a warning
+const SEQ_SCAN_WARN_ROWS = 1000;
+
+// Actual vs estimated row ratio above which the planner estimate is reported as off
+const MISESTIMATE_FACTOR = 10;
+
+type RawPlan = Record<string, unknown>;
+
+function summarizePlan(raw: RawPlan): PlanNode {
+    const schema = raw['Schema'] as string | undefined;
+    const relationName = raw['Relation Name'] as string | undefined;
+    const children = (raw['Plans'] as RawPlan[] | undefined) ?? [];
+
+    const node: PlanNode = {
+        nodeType: raw['Node Type'] as string,
+        startupCost: raw['Startup Cost'] as number,
+        totalCost: raw['Total Cost'] as number,
+        estimatedRows: raw['Plan Rows'] as number,
+        children: children.map(summarizePlan)
+    };
+
+    if (relationName) {
+        node.relation = schema ? `${schema}.${relationName}` : relationName;
+    }
+
+    if (raw['Index Name']) {
+        node.indexName = raw['Index Name'] as string;
+    }
+
+    if (raw['Join Type']) {
+        node.joinType = raw['Join Type'] as string;
+    }
+
+    if (raw['Filter']) {
+        node.filter = raw['Filter'] as string;
+    }
+
+    if (raw['Actual Rows'] !== undefined) {
+        node.actualRows = raw['Actual Rows'] as number;
+        node.actualLoops = raw['Actual Loops'] as number;
+        node.actualTimeMs = raw['Actual Total Time'] as number;
+    }
+
+    if (raw['Rows Removed by Filter'] !== undefined) {
+        node.rowsRemovedByFilter = raw['Rows Removed by Filter'] as number;
+    }
+
+    return node;
+}
+
+function collectWarnings(node: PlanNode, warnings: string[]): void {
+    if (node.nodeType === 'Seq Scan' && node.estimatedRows >= SEQ_SCAN_WARN_ROWS) {
+        const filterNote = node.filter ? ` with filter ${node.filter}` : '';
+        warnings.push(
+            `Sequential scan on ${node.relation ?? 'unknown relation'}${filterNote} (estimated ${node.estimatedRows} rows). Consider an index or a more selective filter.`
+        );
+    }
+
+    if (node.actualRows !== undefined && node.actualLoops !== undefined) {
+        const actual = node.actualRows;
+        const estimated = Math.max(node.estimatedRows, 1);
+        const ratio = Math.max(actual, 1) / estimated;
+
+        if (ratio >= MISESTIMATE_FACTOR || ratio <= 1 / MISESTIMATE_FACTOR) {
+            warnings.push(
+                `${node.nodeType}${node.relation ? ` on ${node.relation}` : ''}: estimated ${node.estimatedRows} rows, actual ${actual}. Table statistics may be stale.`
+            );
+        }
+    }
+
+    for (const child of node.children) {
+        collectWarnings(child, warnings);
+    }
+}
+
+export async function explainQuery(
+    connectionManager: ConnectionManager,
+    input: ExplainQueryInput
+): Promise<ExplainResult> {
+    const database = input.database || connectionManager.getDefaultDatabase();
+    const analyze = input.analyze === true;
+
+    // Plans carry row counts, so the query must pass the same policy checks as run_query
+    await connectionManager.getAccessPolicy().checkQuery(connectionManager, database, input.query);
+
+    const raw = await connectionManager.explainQuery(database, input.query, analyze);
+    const plan = summarizePlan(raw['Plan'] as RawPlan);
+
+    const warnings: string[] = [];
+    collectWarnings(plan, warnings);
+
+    const result: ExplainResult = {
+        database,
+        analyzed: analyze,
+        totalCost: plan.totalCost,
+        estimatedRows: plan.estimatedRows,
+        plan,
+        warnings
+    };
+
+    if (raw['Planning Time'] !== undefined) {
+        result.planningTimeMs = raw['Planning Time'] as number;
+    }
+
+    if (raw['Execution Time'] !== undefined) {
+        result.executionTimeMs = raw['Execution Time'] as number;
+    }
+
+    return result;
+}
@@ -0,0 +1,25 @@
+import { ConnectionManager } from '../connection-manager.js';
+import { QueryResult } from '../types.js';
+import { encodeResult, EncodingOptions } from '../value-encoder.js';
+import { truncateLongText } from './preview-data.js';
+
+export interface FetchPageInput {
+    cursor: string;
+    limit?: number;
+    encoding?: EncodingOptions;
+}
+
+export async function fetchPage(
+    connectionManager: ConnectionManager,
+    input: FetchPageInput
+): Promise<QueryResult> {
+    const { result, source, database, query } = await connectionManager.fetchCursor(input.cursor, input.limit);
+    const policy = connectionManager.getAccessPolicy();
+
+    // The query was checked when the cursor was opened; this only recovers its column rules
+    const columnRules = await policy.checkQuery(connectionManager, database, query);
+    const encoded = encodeResult(policy.maskResult(result, columnRules), input.encoding);
+
+    // Pages of a preview keep the same text truncation as its first page
+    return source === 'preview_data' ? truncateLongText(encoded) : encoded;
+}
@@ -0,0 +1,135 @@
+import { ConnectionManager, DatabaseType } from '../connection-manager.js';
+import {
+    ForeignKeyGraph,
+    GraphStep,
+    loadForeignKeys,
+    splitQualifiedName,
+    stepRelationType
+} from '../foreign-key-graph.js';
+
+export interface FindJoinPathsInput {
+    from: string;
+    to: string;
+    database?: DatabaseType;
+    schemas?: string[];
+    maxPaths?: number;
+    maxDepth?: number;
+}
+
+export interface JoinStep {
+    from: string;
+    to: string;
+    foreignKey: string;
+    direction: 'outgoing' | 'incoming'; // outgoing: `from` holds the foreign key
+    relationType: 'one-to-one' | 'many-to-one' | 'one-to-many';
+    columns: Array<{ fromColumn: string; toColumn: string }>;
+}
+
+export interface JoinPath {
+    joins: number;
+    tables: string[];
+    steps: JoinStep[];
+    joinClauses: string[];
+    sql: string; // FROM clause with all joins
+}
+
+export interface FindJoinPathsResult {
+    from: string;
+    to: string;
+    paths: JoinPath[];
+    truncated: boolean;
+    message?: string;
+}
+
+const DEFAULT_MAX_PATHS = 5;
+const MAX_PATHS_LIMIT = 50;
+const DEFAULT_MAX_DEPTH = 6;
+const MAX_DEPTH_LIMIT = 10;
+
+export function quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Builds the steps, JOIN clauses and FROM clause of a path. Tables get their name as alias,
+ * with a numeric suffix when the path visits the same name twice.
+ */
+function toJoinPath(from: string, path: GraphStep[]): JoinPath {
+    const aliasCounts = new Map<string, number>();
+    const aliasFor = (table: string): string => {
+        const name = splitQualifiedName(table).table;
+        const count = (aliasCounts.get(name) ?? 0) + 1;
+        aliasCounts.set(name, count);
+        return count === 1 ? name : `${name}_${count}`;
+    };
+    const tableSql = (table: string, alias: string): string => {
+        const { schema, table: name } = splitQualifiedName(table);
+        return `${quoteIdentifier(schema)}.${quoteIdentifier(name)} AS ${quoteIdentifier(alias)}`;
+    };
+
+    const tables = [from];
+    const steps: JoinStep[] = [];
+    const joinClauses: string[] = [];
+    let current = from;
+    let currentAlias = aliasFor(from);
+
+    for (const step of path) {
+        const alias = aliasFor(step.table);
+        const columns = step.edge.columns.map(pair => step.direction === 'outgoing'
+            ? { fromColumn: pair.column, toColumn: pair.referencedColumn }
+            : { fromColumn: pair.referencedColumn, toColumn: pair.column });
+        const conditions = columns.map(({ fromColumn, toColumn }) =>
+            `${quoteIdentifier(alias)}.${quoteIdentifier(toColumn)} = ${quoteIdentifier(currentAlias)}.${quoteIdentifier(fromColumn)}`);
+
+        steps.push({
+            from: current,
+            to: step.table,
+            foreignKey: step.edge.name,
+            direction: step.direction,
+            relationType: stepRelationType(step),
+            columns
+        });
+        joinClauses.push(`JOIN ${tableSql(step.table, alias)} ON ${conditions.join(' AND ')}`);
+        tables.push(step.table);
+
+        current = step.table;
+        currentAlias = alias;
+    }
+
+    return {
+        joins: path.length,
+        tables,
+        steps,
+        joinClauses,
+        sql: [`FROM ${tableSql(from, splitQualifiedName(from).table)}`, ...joinClauses].join('\n')
+    };
+}
+
+export async function findJoinPaths(
+    connectionManager: ConnectionManager,
+    input: FindJoinPathsInput
+): Promise<FindJoinPathsResult> {
+    const database = input.database || connectionManager.getDefaultDatabase();
+    const maxPaths = Math.min(input.maxPaths || DEFAULT_MAX_PATHS, MAX_PATHS_LIMIT);
+    const maxDepth = Math.min(input.maxDepth || DEFAULT_MAX_DEPTH, MAX_DEPTH_LIMIT);
+
+    const graph = new ForeignKeyGraph(await loadForeignKeys(connectionManager, database, input.schemas));
+    const from = graph.resolveTable(input.from);
+    const to = graph.resolveTable(input.to);
+
+    // One extra path tells whether the list was cut
+    const paths = graph.shortestPaths(from, to, maxDepth, maxPaths + 1);
+
+    const result: FindJoinPathsResult = {
+        from,
+        to,
+        paths: paths.slice(0, maxPaths).map(path => toJoinPath(from, path)),
+        truncated: paths.length > maxPaths
+    };
+
+    if (paths.length === 0) {
+        result.message = `No foreign key path from "${from}" to "${to}" within ${maxDepth} joins`;
+    }
+
+    return result;
+}
@@ -0,0 +1,57 @@
+import { ConnectionManager, DatabaseType } from '../connection-manager.js';
+import { SchemaInfo } from '../types.js';
+
+export interface ListSchemasInput {
+    database?: DatabaseType;
+}
+
+export async function listSchemas(
+    connectionManager: ConnectionManager,
+    input: ListSchemasInput
+): Promise<SchemaInfo[]> {
+    const database = input.database || connectionManager.getDefaultDatabase();
+
+    // Indexes and TOAST are included through pg_total_relation_size, so only heap relations are summed
+    const query = `
+    SELECT
+      schema_name,
+      owner,
+      table_count,
+      size_bytes,
+      pg_size_pretty(size_bytes) AS size,
+      schema_comment
+    FROM (
+      SELECT
+        n.nspname AS schema_name,
+        pg_get_userbyid(n.nspowner) AS owner,
+        count(c.oid) FILTER (WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')) AS table_count,
+        COALESCE(sum(pg_total_relation_size(c.oid)) FILTER (WHERE c.relkind IN ('r', 'm')), 0)::bigint AS size_bytes,
+        COALESCE(obj_description(n.oid, 'pg_namespace'), '') AS schema_comment
+      FROM
+        pg_namespace n
+      LEFT JOIN
+        pg_class c ON c.relnamespace = n.oid
+      WHERE
+        n.nspname NOT IN ('pg_catalog', 'information_schema')
+        AND n.nspname NOT LIKE 'pg_toast%'
+        AND n.nspname NOT LIKE 'pg_temp%'
+      GROUP BY
+        n.oid, n.nspname, n.nspowner
+    ) AS schemas
+    ORDER BY
+      schema_name
+  `;
+
+    const result = await connectionManager.executeQuery(database, query, []);
+
+    const policy = connectionManager.getAccessPolicy();
+
+    return result.rows.filter(row => !policy.isSchemaDenied(database, row.schema_name as string)).map(row => ({
+        name: row.schema_name as string,
+        owner: row.owner as string,
+        tableCount: parseInt(row.table_count as string, 10),
+        size: row.size as string,
+        sizeBytes: parseInt(row.size_bytes as string, 10),
+        comment: row.schema_comment as string
+    }));
+}
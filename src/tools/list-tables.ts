@@ -1,40 +1,123 @@
 import { ConnectionManager, DatabaseType } from '../connection-manager.js';
-import { TableInfo } from '../types.js';
+import { TableInfo, RelationKind, RELATION_KINDS } from '../types.js';
 
 export interface ListTablesInput {
     database?: DatabaseType;
     schema?: string;
+    kinds?: RelationKind[];
+    pattern?: string;
+    partitions?: boolean;
+}
+
+/**
+ * SQL expression mapping `pg_class c` to a RelationKind
+ */
+export const RELATION_KIND_SQL = `
+    CASE
+      WHEN c.relispartition THEN 'partition'
+      WHEN c.relkind = 'r' THEN 'table'
+      WHEN c.relkind = 'p' THEN 'partitioned table'
+      WHEN c.relkind = 'v' THEN 'view'
+      WHEN c.relkind = 'm' THEN 'materialized view'
+      WHEN c.relkind = 'f' THEN 'foreign table'
+    END`;
+
+/**
+ * Validates the kinds filter of list_tables
+ */
+export function parseRelationKinds(input: unknown): RelationKind[] | undefined {
+    if (input === undefined || input === null) {
+        return undefined;
+    }
+
+    if (!Array.isArray(input) || input.some(kind => !RELATION_KINDS.includes(kind as RelationKind))) {
+        throw new Error(`Invalid kinds. Allowed values: ${RELATION_KINDS.join(', ')}`);
+    }
+
+    return input as RelationKind[];
 }
 
 export async function listTables(
     connectionManager: ConnectionManager,
     input: ListTablesInput
 ): Promise<TableInfo[]> {
-    const database = input.database || 'db';
+    const database = input.database || connectionManager.getDefaultDatabase();
     const schema = input.schema || 'public';
+    const policy = connectionManager.getAccessPolicy();
+
+    policy.assertSchemaAllowed(database, schema);
+
+    // partitions: false hides partition children; their parents still report the combined rows and size
+    let kinds: RelationKind[] | null = input.kinds && input.kinds.length > 0 ? input.kinds : null;
+
+    if (input.partitions === false) {
+        kinds = (kinds ?? RELATION_KINDS).filter(kind => kind !== 'partition');
+    }
+
+    // Patterns without % match anywhere in the name
+    const pattern = input.pattern
+        ? (input.pattern.includes('%') ? input.pattern : `%${input.pattern}%`)
+        : null;
 
     const query = `
-    SELECT 
-      t.table_name,
-      t.table_type,
-      COALESCE(s.n_live_tup, 0) as row_count_estimate,
-      t.table_schema
-    FROM 
-      information_schema.tables t
-    LEFT JOIN 
-      pg_stat_user_tables s ON t.table_name = s.relname AND t.table_schema = s.schemaname
-    WHERE 
-      t.table_schema = $1
-    ORDER BY 
-      t.table_name
+    SELECT
+      table_name,
+      kind,
+      row_count_estimate,
+      table_schema,
+      size_bytes,
+      pg_size_pretty(size_bytes) AS size,
+      table_comment
+    FROM (
+      SELECT
+        c.relname AS table_name,
+        ${RELATION_KIND_SQL} AS kind,
+        CASE
+          WHEN c.relkind = 'p' THEN (
+            SELECT COALESCE(sum(COALESCE(ps.n_live_tup, 0)), 0)
+            FROM pg_partition_tree(c.oid) pt
+            LEFT JOIN pg_stat_user_tables ps ON ps.relid = pt.relid
+            WHERE pt.isleaf
+          )
+          WHEN c.relkind IN ('r', 'm', 'f') THEN COALESCE(s.n_live_tup, GREATEST(c.reltuples, 0)::bigint)
+          ELSE 0
+        END AS row_count_estimate,
+        n.nspname AS table_schema,
+        CASE
+          WHEN c.relkind = 'p' THEN (
+            SELECT COALESCE(sum(pg_total_relation_size(pt.relid)), 0)::bigint
+            FROM pg_partition_tree(c.oid) pt
+            WHERE pt.isleaf
+          )
+          ELSE pg_total_relation_size(c.oid)
+        END AS size_bytes,
+        COALESCE(obj_description(c.oid, 'pg_class'), '') AS table_comment
+      FROM
+        pg_class c
+      JOIN
+        pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN
+        pg_stat_user_tables s ON s.relid = c.oid
+      WHERE
+        n.nspname = $1
+        AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+    ) AS relations
+    WHERE
+      ($2::text[] IS NULL OR kind = ANY($2::text[]))
+      AND ($3::text IS NULL OR table_name ILIKE $3)
+    ORDER BY
+      table_name
   `;
 
-    const result = await connectionManager.executeQuery(database, query, [schema]);
+    const result = await connectionManager.executeQuery(database, query, [schema, kinds, pattern]);
 
-    return result.rows.map(row => ({
+    return result.rows.filter(row => !policy.isTableDenied(database, schema, row.table_name as string)).map(row => ({
         name: row.table_name as string,
-        type: (row.table_type as string) === 'BASE TABLE' ? 'BASE TABLE' : 'VIEW',
+        type: row.kind as RelationKind,
         rowCount: parseInt(row.row_count_estimate as string, 10),
-        schema: row.table_schema as string
+        schema: row.table_schema as string,
+        size: row.size as string,
+        sizeBytes: parseInt(row.size_bytes as string, 10),
+        comment: row.table_comment as string
     }));
 }
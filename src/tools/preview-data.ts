@@ -1,5 +1,6 @@
 import { ConnectionManager, DatabaseType } from '../connection-manager.js';
 import { QueryResult, LIMITS } from '../types.js';
+import { encodeResult, EncodingOptions } from '../value-encoder.js';
 
 export interface PreviewDataInput {
     table: string;
@@ -7,6 +8,8 @@ export interface PreviewDataInput {
     schema?: string;
     columns?: string[];
     limit?: number;
+    paginate?: boolean;
+    encoding?: EncodingOptions;
 }
 
 const IDENTIFIER_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
@@ -17,11 +20,35 @@ function assertIdentifier(value: string, fieldName: string): void {
     }
 }
 
+/**
+ * Truncates long text fields in a preview result
+ */
+export function truncateLongText(result: QueryResult): QueryResult {
+    const processedRows = result.rows.map(row => {
+        const newRow: Record<string, unknown> = {};
+
+        for (const [key, value] of Object.entries(row)) {
+            if (typeof value === 'string' && value.length > LIMITS.TEXT_TRUNCATE) {
+                newRow[key] = value.substring(0, LIMITS.TEXT_TRUNCATE) + '... (truncated)';
+            } else {
+                newRow[key] = value;
+            }
+        }
+
+        return newRow;
+    });
+
+    return {
+        ...result,
+        rows: processedRows
+    };
+}
+
 export async function previewData(
     connectionManager: ConnectionManager,
     input: PreviewDataInput
 ): Promise<QueryResult> {
-    const database = input.database || 'db';
+    const database = input.database || connectionManager.getDefaultDatabase();
     const schema = input.schema || 'public';
     const table = input.table;
     const limit = Math.min(input.limit || LIMITS.PREVIEW_DEFAULT, LIMITS.PREVIEW_MAX);
@@ -29,40 +56,33 @@ export async function previewData(
     assertIdentifier(schema, 'schema');
     assertIdentifier(table, 'table');
 
+    const policy = connectionManager.getAccessPolicy();
+    policy.assertTableAllowed(database, schema, table);
+
     // Construct query
     const columnSelection = input.columns && input.columns.length > 0
         ? input.columns
             .map(column => {
                 assertIdentifier(column, 'column');
+
+                if (policy.columnAction(database, schema, table, column) === 'hide') {
+                    throw new Error(`Column "${column}" is hidden by the access policy`);
+                }
+
                 return `"${column}"`;
             })
             .join(', ')
         : '*';
 
     const query = `SELECT ${columnSelection} FROM "${schema}"."${table}"`;
+    const columnRules = await policy.checkQuery(connectionManager, database, query);
 
     // Limit is handled by executeQuery, but we pass it explicitly
     // Note: executeQuery adds LIMIT if not present, but we want to ensure we don't fetch too many
 
-    const result = await connectionManager.executeQuery(database, query, [], limit);
-
-    // Post-process to truncate long text fields
-    const processedRows = result.rows.map(row => {
-        const newRow: Record<string, unknown> = {};
-
-        for (const [key, value] of Object.entries(row)) {
-            if (typeof value === 'string' && value.length > LIMITS.TEXT_TRUNCATE) {
-                newRow[key] = value.substring(0, LIMITS.TEXT_TRUNCATE) + '... (truncated)';
-            } else {
-                newRow[key] = value;
-            }
-        }
-
-        return newRow;
-    });
+    const result = input.paginate
+        ? await connectionManager.openCursor(database, query, [], limit, 'preview_data', { scanPii: true })
+        : await connectionManager.executeQuery(database, query, [], limit, { scanPii: true });
 
-    return {
-        ...result,
-        rows: processedRows
-    };
+    return truncateLongText(encodeResult(policy.maskResult(result, columnRules), input.encoding));
 }
@@ -0,0 +1,547 @@
+import { ConnectionManager, DatabaseType } from '../connection-manager.js';
+import { LIMITS, PiiMaskingInfo } from '../types.js';
+import { quoteIdentifier } from './find-join-paths.js';
+
+export const PROFILE_MODES = ['fast', 'exact'] as const;
+export type ProfileMode = typeof PROFILE_MODES[number];
+
+export interface ProfileTableInput {
+    table: string;
+    database?: DatabaseType;
+    schema?: string;
+    columns?: string[];
+    mode?: ProfileMode;
+    samplePercent?: number;
+    mostCommon?: number;
+    buckets?: number;
+}
+
+export interface ValueFrequency {
+    value: string;
+    frequency: number; // Fraction of all rows
+}
+
+export interface HistogramBucket {
+    from: string;
+    to: string;
+    frequency: number; // Fraction of all rows
+}
+
+export interface LengthDistribution {
+    min: number | null;
+    max: number | null;
+    average: number | null;
+    percentiles?: Record<'p25' | 'p50' | 'p75' | 'p90' | 'p99', number>;
+}
+
+export interface ColumnProfile {
+    column: string;
+    dataType: string;
+    statsAvailable: boolean; // Fast mode: whether pg_stats has a row for the column
+    nullFraction: number | null;
+    distinctCount: number | null;
+    min: string | null;
+    max: string | null;
+    mostCommonValues: ValueFrequency[];
+    lengths?: LengthDistribution; // Text columns; fast mode only has the average width in bytes
+    histogram?: HistogramBucket[]; // Numeric and date/time columns
+}
+
+export interface TableProfile {
+    table: string;
+    schema: string;
+    mode: ProfileMode;
+    rowCount: number; // Estimate in fast mode, exact count of profiled rows in exact mode
+    samplePercent?: number;
+    columns: ColumnProfile[];
+    note?: string;
+    piiMasked?: PiiMaskingInfo; // Present when the PII scanner masked reported values
+}
+
+interface ProfiledColumn {
+    name: string;
+    dataType: string;
+    typeName: string;
+    category: string;
+}
+
+const DEFAULT_MOST_COMMON = 10;
+const MAX_MOST_COMMON = 100;
+const DEFAULT_BUCKETS = 10;
+const MAX_BUCKETS = 50;
+
+// Exact mode samples tables estimated above this many rows, aiming at roughly this many sampled rows
+const SAMPLE_TARGET_ROWS = 100000;
+
+const NUMERIC_TYPES = ['int2', 'int4', 'int8', 'numeric', 'float4', 'float8'];
+const UNCOMPARABLE_TYPES = ['json', 'xml'];
+
+/**
+ * Bounds a requested count to 1..max, rounding down fractions; the default covers a missing or non-numeric value
+ */
+function clampCount(value: number | undefined, fallback: number, max: number): number {
+    if (value === undefined || !Number.isFinite(value)) {
+        return fallback;
+    }
+
+    return Math.min(Math.max(1, Math.floor(value)), max);
+}
+
+function round(value: number, digits = 4): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+function isComparable(column: ProfiledColumn): boolean {
+    return !UNCOMPARABLE_TYPES.includes(column.typeName) && column.category !== 'G';
+}
+
+function isOrdered(column: ProfiledColumn): boolean {
+    return NUMERIC_TYPES.includes(column.typeName) || ['D', 'S', 'T', 'E'].includes(column.category);
+}
+
+function hasHistogram(column: ProfiledColumn): boolean {
+    return NUMERIC_TYPES.includes(column.typeName) || column.category === 'D';
+}
+
+/**
+ * Fast mode: pg_stats as collected by ANALYZE. Histogram buckets hold equal shares of the rows
+ * that are neither NULL nor one of the most common values.
+ */
+async function profileFromStats(
+    connectionManager: ConnectionManager,
+    database: DatabaseType,
+    schema: string,
+    table: string,
+    columns: ProfiledColumn[],
+    rowCount: number,
+    mostCommon: number,
+    buckets: number
+): Promise<ColumnProfile[]> {
+    // Partitioned tables only have statistics over all partitions (inherited)
+    const query = `
+    SELECT DISTINCT ON (s.attname)
+      s.attname::text AS column_name,
+      s.null_frac,
+      s.n_distinct,
+      s.avg_width,
+      s.most_common_vals::text::text[] AS most_common_vals,
+      s.most_common_freqs,
+      s.histogram_bounds::text::text[] AS histogram_bounds
+    FROM
+      pg_stats s
+    WHERE
+      s.schemaname = $1
+      AND s.tablename = $2
+      AND s.attname = ANY($3::text[])
+    ORDER BY
+      s.attname, s.inherited DESC
+  `;
+
+    const result = await connectionManager.executeQuery(
+        database,
+        query,
+        [schema, table, columns.map(column => column.name)],
+        LIMITS.QUERY_MAX
+    );
+    const stats = new Map(result.rows.map(row => [row.column_name as string, row]));
+
+    return columns.map(column => {
+        const row = stats.get(column.name);
+
+        if (!row) {
+            return {
+                column: column.name,
+                dataType: column.dataType,
+                statsAvailable: false,
+                nullFraction: null,
+                distinctCount: null,
+                min: null,
+                max: null,
+                mostCommonValues: []
+            };
+        }
+
+        const nullFraction = Number(row.null_frac);
+        const nDistinct = Number(row.n_distinct);
+        const values = (row.most_common_vals as string[] | null) ?? [];
+        const frequencies = ((row.most_common_freqs as number[] | null) ?? []).map(Number);
+        const bounds = (row.histogram_bounds as string[] | null) ?? [];
+
+        // Negative n_distinct is a fraction of the row count
+        const profile: ColumnProfile = {
+            column: column.name,
+            dataType: column.dataType,
+            statsAvailable: true,
+            nullFraction: round(nullFraction),
+            distinctCount: nDistinct >= 0 ? nDistinct : Math.round(-nDistinct * rowCount),
+            min: bounds[0] ?? null,
+            max: bounds[bounds.length - 1] ?? null,
+            mostCommonValues: values.slice(0, mostCommon).map((value, index) => ({
+                value,
+                frequency: round(frequencies[index])
+            }))
+        };
+
+        if (column.category === 'S') {
+            profile.lengths = { min: null, max: null, average: Number(row.avg_width) };
+        }
+
+        // Adjacent pg_stats buckets are merged down to the requested number
+        if (hasHistogram(column) && bounds.length > 1) {
+            const intervals = bounds.length - 1;
+            const share = (1 - nullFraction - frequencies.reduce((sum, frequency) => sum + frequency, 0)) / intervals;
+            const count = Math.min(buckets, intervals);
+            const boundIndex = (bucket: number): number => Math.round((bucket * intervals) / count);
+
+            profile.histogram = Array.from({ length: count }, (_, bucket) => ({
+                from: bounds[boundIndex(bucket)],
+                to: bounds[boundIndex(bucket + 1)],
+                frequency: round(share * (boundIndex(bucket + 1) - boundIndex(bucket)))
+            }));
+        }
+
+        return profile;
+    });
+}
+
+/**
+ * Exact mode: aggregates over the table, or a repeatable TABLESAMPLE of it, one column at a time
+ */
+async function profileColumn(
+    connectionManager: ConnectionManager,
+    database: DatabaseType,
+    fromSql: string,
+    column: ProfiledColumn,
+    mostCommon: number,
+    buckets: number
+): Promise<{ total: number; profile: ColumnProfile }> {
+    const name = quoteIdentifier(column.name);
+    const comparable = isComparable(column);
+    const ordered = isOrdered(column);
+    const isText = column.category === 'S';
+    const histogram = hasHistogram(column);
+    const histogramValue = column.category === 'D' ? `extract(epoch FROM ${name})::float8` : `${name}::float8`;
+
+    const selections = [
+        'count(*) AS total',
+        `count(${name}) AS non_null`,
+        comparable ? `count(DISTINCT ${name}) AS distinct_count` : 'NULL::bigint AS distinct_count',
+        ordered ? `min(${name})::text AS min_value` : 'NULL::text AS min_value',
+        ordered ? `max(${name})::text AS max_value` : 'NULL::text AS max_value'
+    ];
+
+    if (isText) {
+        selections.push(
+            `min(length(${name})) AS min_length`,
+            `max(length(${name})) AS max_length`,
+            `avg(length(${name}))::float8 AS avg_length`,
+            `percentile_cont(ARRAY[0.25, 0.5, 0.75, 0.9, 0.99]) WITHIN GROUP (ORDER BY length(${name})) AS length_percentiles`
+        );
+    }
+
+    if (histogram) {
+        selections.push(`min(${histogramValue}) AS low`, `max(${histogramValue}) AS high`);
+    }
+
+    const summary = (await connectionManager.executeQuery(
+        database,
+        `SELECT ${selections.join(', ')} FROM ${fromSql}`,
+        [],
+        1
+    )).rows[0];
+    const total = parseInt(summary.total as string, 10);
+    const nonNull = parseInt(summary.non_null as string, 10);
+    const share = (count: number): number => total > 0 ? round(count / total) : 0;
+
+    const profile: ColumnProfile = {
+        column: column.name,
+        dataType: column.dataType,
+        statsAvailable: true,
+        nullFraction: share(total - nonNull),
+        distinctCount: summary.distinct_count === null ? null : parseInt(summary.distinct_count as string, 10),
+        min: summary.min_value as string | null,
+        max: summary.max_value as string | null,
+        mostCommonValues: []
+    };
+
+    if (comparable && nonNull > 0) {
+        const mcvQuery = `
+        SELECT ${name}::text AS value, count(*) AS frequency
+        FROM ${fromSql}
+        WHERE ${name} IS NOT NULL
+        GROUP BY ${name}
+        ORDER BY count(*) DESC, 1
+        LIMIT ${mostCommon}
+      `;
+        const mcvResult = await connectionManager.executeQuery(database, mcvQuery, [], mostCommon);
+
+        profile.mostCommonValues = mcvResult.rows.map(row => ({
+            value: row.value as string,
+            frequency: share(parseInt(row.frequency as string, 10))
+        }));
+    }
+
+    if (isText) {
+        const percentiles = (summary.length_percentiles as number[] | null)?.map(Number);
+
+        profile.lengths = {
+            min: summary.min_length as number | null,
+            max: summary.max_length as number | null,
+            average: summary.avg_length === null ? null : round(Number(summary.avg_length), 2),
+            ...(percentiles ? {
+                percentiles: {
+                    p25: percentiles[0],
+                    p50: percentiles[1],
+                    p75: percentiles[2],
+                    p90: percentiles[3],
+                    p99: percentiles[4]
+                }
+            } : {})
+        };
+    }
+
+    if (histogram && summary.low !== null) {
+        profile.histogram = await equalWidthHistogram(
+            connectionManager,
+            database,
+            fromSql,
+            histogramValue,
+            Number(summary.low),
+            Number(summary.high),
+            buckets,
+            column.category === 'D',
+            share
+        );
+    }
+
+    return { total, profile };
+}
+
+/**
+ * Buckets of equal width between the lowest and highest value. Date/time values are bucketed by epoch seconds.
+ */
+async function equalWidthHistogram(
+    connectionManager: ConnectionManager,
+    database: DatabaseType,
+    fromSql: string,
+    value: string,
+    low: number,
+    high: number,
+    buckets: number,
+    isDate: boolean,
+    share: (count: number) => number
+): Promise<HistogramBucket[]> {
+    const count = high > low ? buckets : 1;
+    const width = (high - low) / count;
+    const label = (bound: number): string => isDate ? new Date(bound * 1000).toISOString() : String(round(bound, 6));
+
+    // width_bucket puts the highest value in bucket count + 1, so it is folded into the last bucket
+    const query = `
+    SELECT LEAST(width_bucket(${value}, $1::float8, $2::float8, $3::int), $3::int) AS bucket, count(*) AS row_count
+    FROM ${fromSql}
+    WHERE ${value} IS NOT NULL
+    GROUP BY 1
+  `;
+
+    const result = await connectionManager.executeQuery(
+        database,
+        query,
+        [low, high > low ? high : low + 1, count],
+        MAX_BUCKETS + 1
+    );
+    const counts = new Map(result.rows.map(row => [Number(row.bucket), parseInt(row.row_count as string, 10)]));
+
+    return Array.from({ length: count }, (_, index) => ({
+        from: label(low + index * width),
+        to: label(index === count - 1 ? high : low + (index + 1) * width),
+        frequency: share(counts.get(index + 1) ?? 0)
+    }));
+}
+
+/**
+ * Masks personal data in the values profiles report (min/max, most common values and histogram
+ * bounds), as the PII scanner does for query results with the same column types
+ */
+function maskProfiles(
+    connectionManager: ConnectionManager,
+    columns: ProfiledColumn[],
+    profiles: ColumnProfile[]
+): { profiles: ColumnProfile[]; piiMasked?: PiiMaskingInfo } {
+    let piiMasked: PiiMaskingInfo | undefined;
+
+    const masked = profiles.map((profile, index) => {
+        const name = profile.column;
+        const histogram = profile.histogram ?? [];
+        const values = [
+            profile.min,
+            profile.max,
+            ...profile.mostCommonValues.map(entry => entry.value),
+            ...histogram.flatMap(bucket => [bucket.from, bucket.to])
+        ];
+        const result = connectionManager.maskPii({
+            rows: values.map(value => ({ [name]: value })),
+            fields: [{ name, type: columns[index].typeName, isArray: false }],
+            rowCount: values.length,
+            truncated: false
+        });
+
+        if (!result.piiMasked) {
+            return profile;
+        }
+
+        piiMasked = {
+            strategy: result.piiMasked.strategy,
+            columns: [...(piiMasked?.columns ?? []), ...result.piiMasked.columns]
+        };
+
+        const reported = result.rows.map(row => row[name] as string | null);
+        const mostCommonEnd = 2 + profile.mostCommonValues.length;
+
+        return {
+            ...profile,
+            min: reported[0],
+            max: reported[1],
+            mostCommonValues: profile.mostCommonValues.map((entry, position) => ({
+                ...entry,
+                value: reported[2 + position] as string
+            })),
+            ...(profile.histogram ? {
+                histogram: histogram.map((bucket, position) => ({
+                    ...bucket,
+                    from: reported[mostCommonEnd + position * 2] as string,
+                    to: reported[mostCommonEnd + position * 2 + 1] as string
+                }))
+            } : {})
+        };
+    });
+
+    return piiMasked ? { profiles: masked, piiMasked } : { profiles: masked };
+}
+
+export async function profileTable(
+    connectionManager: ConnectionManager,
+    input: ProfileTableInput
+): Promise<TableProfile> {
+    const database = input.database || connectionManager.getDefaultDatabase();
+    const schema = input.schema || 'public';
+    const table = input.table;
+    const mode = input.mode || 'fast';
+    const mostCommon = clampCount(input.mostCommon, DEFAULT_MOST_COMMON, MAX_MOST_COMMON);
+    const buckets = clampCount(input.buckets, DEFAULT_BUCKETS, MAX_BUCKETS);
+    const policy = connectionManager.getAccessPolicy();
+
+    policy.assertTableAllowed(database, schema, table);
+
+    // Domains are profiled like their base type
+    const columnsQuery = `
+    SELECT
+      a.attname::text AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS data_type,
+      t.typname::text AS type_name,
+      t.typcategory::text AS type_category,
+      CASE
+        WHEN c.relkind = 'p' THEN (
+          SELECT COALESCE(sum(GREATEST(pc.reltuples, 0)), 0)::bigint
+          FROM pg_partition_tree(c.oid) pt
+          JOIN pg_class pc ON pc.oid = pt.relid
+          WHERE pt.isleaf
+        )
+        ELSE GREATEST(c.reltuples, 0)::bigint
+      END AS row_estimate
+    FROM
+      pg_attribute a
+    JOIN
+      pg_class c ON c.oid = a.attrelid
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    JOIN
+      pg_type at ON at.oid = a.atttypid
+    JOIN
+      pg_type t ON t.oid = CASE WHEN at.typtype = 'd' THEN at.typbasetype ELSE at.oid END
+    WHERE
+      n.nspname = $1
+      AND c.relname = $2
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+    ORDER BY
+      a.attnum
+  `;
+
+    const columnsResult = await connectionManager.executeQuery(database, columnsQuery, [schema, table], LIMITS.QUERY_MAX);
+
+    if (columnsResult.rows.length === 0) {
+        throw new Error(`Table "${schema}.${table}" not found`);
+    }
+
+    const allColumns: ProfiledColumn[] = columnsResult.rows.map(row => ({
+        name: row.column_name as string,
+        dataType: row.data_type as string,
+        typeName: row.type_name as string,
+        category: row.type_category as string
+    }));
+    const rowEstimate = parseInt(columnsResult.rows[0].row_estimate as string, 10);
+
+    // Statistics would reveal the values of hidden and masked columns, so they are not profiled
+    let columns = allColumns.filter(column => !policy.columnAction(database, schema, table, column.name));
+
+    if (input.columns && input.columns.length > 0) {
+        const missing = input.columns.filter(name => !allColumns.some(column => column.name === name));
+
+        if (missing.length > 0) {
+            throw new Error(`Column ${missing.map(name => `"${name}"`).join(', ')} not found in "${schema}.${table}"`);
+        }
+
+        for (const name of input.columns) {
+            policy.assertColumnReadable(database, schema, table, name);
+        }
+
+        columns = allColumns.filter(column => input.columns!.includes(column.name));
+    }
+
+    if (mode === 'fast') {
+        const stats = await profileFromStats(connectionManager, database, schema, table, columns, rowEstimate, mostCommon, buckets);
+        const { profiles, piiMasked } = maskProfiles(connectionManager, columns, stats);
+        const profile: TableProfile = { table, schema, mode, rowCount: rowEstimate, columns: profiles };
+
+        if (piiMasked) {
+            profile.piiMasked = piiMasked;
+        }
+
+        if (profiles.some(column => !column.statsAvailable)) {
+            profile.note = 'Some columns have no statistics. Run ANALYZE on the table or use mode "exact".';
+        }
+
+        return profile;
+    }
+
+    // The same REPEATABLE seed gives every per-column query the same sample
+    const samplePercent = input.samplePercent !== undefined
+        ? Math.min(Math.max(input.samplePercent, 0.0001), 100)
+        : rowEstimate > SAMPLE_TARGET_ROWS ? round((SAMPLE_TARGET_ROWS / rowEstimate) * 100) : 100;
+    const tableSql = `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
+    const fromSql = samplePercent < 100 ? `${tableSql} TABLESAMPLE SYSTEM (${samplePercent}) REPEATABLE (0)` : tableSql;
+
+    const exact: ColumnProfile[] = [];
+    let rowCount = 0;
+
+    for (const column of columns) {
+        const { total, profile } = await profileColumn(connectionManager, database, fromSql, column, mostCommon, buckets);
+        rowCount = total;
+        exact.push(profile);
+    }
+
+    const { profiles, piiMasked } = maskProfiles(connectionManager, columns, exact);
+    const profile: TableProfile = { table, schema, mode, rowCount, samplePercent, columns: profiles };
+
+    if (piiMasked) {
+        profile.piiMasked = piiMasked;
+    }
+
+    if (samplePercent < 100) {
+        profile.note = `Profiled a ${samplePercent}% block sample; counts and frequencies describe the sample.`;
+    }
+
+    return profile;
+}
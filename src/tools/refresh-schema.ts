@@ -0,0 +1,30 @@
+import { ConnectionManager, DatabaseType } from '../connection-manager.js';
+import { SchemaCache } from '../schema-cache.js';
+
+export interface RefreshSchemaInput {
+    database?: DatabaseType;
+}
+
+export interface RefreshSchemaResult {
+    database: string;
+    tableCount: number;
+    changed: boolean;
+}
+
+export async function refreshSchema(
+    connectionManager: ConnectionManager,
+    schemaCache: SchemaCache,
+    input: RefreshSchemaInput
+): Promise<RefreshSchemaResult> {
+    const database = input.database || connectionManager.getDefaultDatabase();
+
+    // Notifies resource subscribers when the table set changed
+    const changed = await schemaCache.refresh(database);
+    const tables = await schemaCache.getTables(database);
+
+    return {
+        database,
+        tableCount: tables.length,
+        changed
+    };
+}
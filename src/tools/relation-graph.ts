@@ -0,0 +1,56 @@
+import { ConnectionManager, DatabaseType } from '../connection-manager.js';
+import { ForeignKeyGraph, loadForeignKeys } from '../foreign-key-graph.js';
+import { ColumnPair } from '../types.js';
+
+export interface RelationGraphInput {
+    table: string;
+    database?: DatabaseType;
+    schemas?: string[];
+    depth?: number;
+}
+
+export interface RelationGraphEdge {
+    foreignKey: string;
+    from: string; // Referencing table
+    to: string; // Referenced table
+    columns: ColumnPair[];
+    relationType: 'one-to-one' | 'many-to-one'; // Seen from the referencing table
+}
+
+export interface RelationGraphResult {
+    center: string;
+    depth: number;
+    tables: Array<{ table: string; distance: number }>;
+    edges: RelationGraphEdge[];
+}
+
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 5;
+
+export async function relationGraph(
+    connectionManager: ConnectionManager,
+    input: RelationGraphInput
+): Promise<RelationGraphResult> {
+    const database = input.database || connectionManager.getDefaultDatabase();
+    const depth = Math.min(input.depth || DEFAULT_DEPTH, MAX_DEPTH);
+
+    const graph = new ForeignKeyGraph(await loadForeignKeys(connectionManager, database, input.schemas));
+    const center = graph.resolveTable(input.table);
+    const distances = graph.neighborhood(center, depth);
+
+    const tables = Array.from(distances, ([table, distance]) => ({ table, distance }))
+        .sort((a, b) => a.distance - b.distance || a.table.localeCompare(b.table));
+
+    // Every foreign key between two tables of the neighborhood, including those between tables at the outer edge
+    const edges = graph.edges
+        .filter(edge => distances.has(edge.from) && distances.has(edge.to))
+        .map(edge => ({
+            foreignKey: edge.name,
+            from: edge.from,
+            to: edge.to,
+            columns: edge.columns,
+            relationType: edge.uniqueColumns ? 'one-to-one' as const : 'many-to-one' as const
+        }));
+
+    return { center, depth, tables, edges };
+}
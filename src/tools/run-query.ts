@@ -1,18 +1,189 @@
 import { ConnectionManager, DatabaseType } from '../connection-manager.js';
 import { QueryResult, LIMITS } from '../types.js';
+import { encodeResult, EncodingOptions } from '../value-encoder.js';
+
+/**
+ * Explicitly typed query parameter, e.g. `{ "type": "date", "value": "2024-01-31" }`
+ */
+export interface TypedQueryParam {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'timestamp' | 'json' | 'array' | 'null';
+    value?: unknown;
+}
+
+/**
+ * Query parameter bound to a `$n` placeholder: a plain scalar or a typed value
+ */
+export type QueryParam = string | number | boolean | null | TypedQueryParam;
 
 export interface RunQueryInput {
     query: string;
     database?: DatabaseType;
     limit?: number;
+    params?: QueryParam[];
+    paginate?: boolean;
+    encoding?: EncodingOptions;
+}
+
+const PARAM_TYPES: TypedQueryParam['type'][] = [
+    'string', 'number', 'integer', 'boolean', 'date', 'timestamp', 'json', 'array', 'null'
+];
+
+const NUMERIC_STRING_REGEX = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+const INTEGER_STRING_REGEX = /^-?\d+$/;
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP_REGEX = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+
+function describeValue(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+
+    return typeof value === 'string' ? `string "${value}"` : typeof value;
+}
+
+function paramError(index: number, expected: string, value: unknown): Error {
+    return new Error(`Invalid params[${index}] ($${index + 1}): expected ${expected}, got ${describeValue(value)}`);
+}
+
+function isValidDate(value: string): boolean {
+    return !Number.isNaN(Date.parse(value.replace(' ', 'T')));
+}
+
+/**
+ * Converts a typed parameter into the value sent to PostgreSQL
+ */
+function convertTypedParam(param: TypedQueryParam, index: number): unknown {
+    const { type, value } = param;
+
+    switch (type) {
+        case 'null':
+            return null;
+
+        case 'string':
+            if (typeof value !== 'string') {
+                throw paramError(index, 'a string', value);
+            }
+            return value;
+
+        case 'number':
+            if (typeof value === 'number' && Number.isFinite(value)) {
+                return value;
+            }
+            // Numeric strings keep full precision for numeric/decimal columns
+            if (typeof value === 'string' && NUMERIC_STRING_REGEX.test(value)) {
+                return value;
+            }
+            throw paramError(index, 'a finite number or numeric string', value);
+
+        case 'integer':
+            if (typeof value === 'number' && Number.isSafeInteger(value)) {
+                return value;
+            }
+            // Integer strings allow int8 values beyond Number.MAX_SAFE_INTEGER
+            if (typeof value === 'string' && INTEGER_STRING_REGEX.test(value)) {
+                return value;
+            }
+            throw paramError(index, 'an integer or integer string', value);
+
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                throw paramError(index, 'a boolean', value);
+            }
+            return value;
+
+        case 'date':
+            if (typeof value !== 'string' || !ISO_DATE_REGEX.test(value) || !isValidDate(value)) {
+                throw paramError(index, 'an ISO date (YYYY-MM-DD)', value);
+            }
+            return value;
+
+        case 'timestamp':
+            if (typeof value !== 'string' || !ISO_TIMESTAMP_REGEX.test(value) || !isValidDate(value)) {
+                throw paramError(index, 'an ISO 8601 timestamp (e.g. 2024-01-31T12:00:00Z)', value);
+            }
+            return value;
+
+        case 'json':
+            if (value === undefined) {
+                throw paramError(index, 'a JSON value', value);
+            }
+            return JSON.stringify(value);
+
+        case 'array':
+            if (!Array.isArray(value) || value.some(item => item !== null && typeof item === 'object')) {
+                throw paramError(index, 'an array of scalar values', value);
+            }
+            return value;
+
+        default:
+            throw new Error(
+                `Invalid params[${index}] ($${index + 1}): unknown type "${String(type)}". Allowed types: ${PARAM_TYPES.join(', ')}`
+            );
+    }
+}
+
+/**
+ * Validates run_query params and converts them into values for `pg`
+ */
+export function normalizeParams(params: unknown): unknown[] {
+    if (params === undefined) {
+        return [];
+    }
+
+    if (!Array.isArray(params)) {
+        throw new Error('Invalid params: expected an array of values');
+    }
+
+    return params.map((param, index) => {
+        if (param === null || typeof param === 'string' || typeof param === 'boolean') {
+            return param;
+        }
+
+        if (typeof param === 'number') {
+            if (!Number.isFinite(param)) {
+                throw paramError(index, 'a finite number', param);
+            }
+            // JSON numbers beyond 2^53 have already lost digits; they must arrive as strings
+            if (Number.isInteger(param) && !Number.isSafeInteger(param)) {
+                throw paramError(
+                    index,
+                    'an integer within ±9007199254740991; send larger integers as a string or { "type": "integer", "value": "..." }',
+                    param
+                );
+            }
+            return param;
+        }
+
+        if (typeof param === 'object' && !Array.isArray(param) && 'type' in param) {
+            return convertTypedParam(param as TypedQueryParam, index);
+        }
+
+        throw paramError(
+            index,
+            'a string, number, boolean, null, or { "type": ..., "value": ... } object',
+            param
+        );
+    });
 }
 
 export async function runQuery(
     connectionManager: ConnectionManager,
     input: RunQueryInput
 ): Promise<QueryResult> {
-    const database = input.database || 'db';
+    const database = input.database || connectionManager.getDefaultDatabase();
     const limit = Math.min(input.limit || LIMITS.QUERY_DEFAULT, LIMITS.QUERY_MAX);
+    const params = normalizeParams(input.params);
+    const policy = connectionManager.getAccessPolicy();
+    const columnRules = await policy.checkQuery(connectionManager, database, input.query);
+
+    // With paginate, `limit` becomes the page size; remaining pages are read with fetch_page
+    const result = input.paginate
+        ? await connectionManager.openCursor(database, input.query, params, limit, 'run_query', { scanPii: true, checkCost: true })
+        : await connectionManager.executeQuery(database, input.query, params, limit, { scanPii: true, checkCost: true });
 
-    return await connectionManager.executeQuery(database, input.query, [], limit);
+    return encodeResult(policy.maskResult(result, columnRules), input.encoding);
 }
@@ -0,0 +1,217 @@
+import { ConnectionManager, DatabaseType } from '../connection-manager.js';
+import { LIMITS, RelationKind } from '../types.js';
+import { RELATION_KIND_SQL } from './list-tables.js';
+
+export interface SearchSchemaInput {
+    query: string;
+    database?: DatabaseType;
+    schemas?: string[];
+    mode?: 'substring' | 'fuzzy';
+    limit?: number;
+}
+
+export interface SchemaSearchMatch {
+    type: 'table' | 'column';
+    schema: string;
+    table: string;
+    column?: string;
+    dataType?: string; // Column type
+    relationKind: RelationKind;
+    comment: string;
+    matchedOn: 'name' | 'comment';
+    score: number; // Higher is better: exact > prefix > substring > fuzzy, names before comments
+}
+
+export interface SchemaSearchResult {
+    query: string;
+    mode: 'substring' | 'fuzzy';
+    matches: SchemaSearchMatch[];
+    truncated: boolean;
+}
+
+const SEARCH_DEFAULT_LIMIT = 50;
+const SEARCH_MAX_LIMIT = 500;
+
+/**
+ * Escapes LIKE wildcards so the search text is matched literally
+ */
+function escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Builds a pattern matching the characters of `text` in order, with anything in between
+ */
+function fuzzyPattern(text: string): string {
+    return `%${Array.from(text).map(escapeLike).join('%')}%`;
+}
+
+/**
+ * Length of the shortest window of `name` containing `query` as a subsequence, or null if it does not
+ */
+function subsequenceSpan(name: string, query: string): number | null {
+    let best: number | null = null;
+
+    for (let start = 0; start < name.length; start++) {
+        if (name[start] !== query[0]) {
+            continue;
+        }
+
+        let position = start;
+        let matched = 0;
+
+        while (position < name.length && matched < query.length) {
+            if (name[position] === query[matched]) {
+                matched++;
+            }
+            position++;
+        }
+
+        if (matched === query.length && (best === null || position - start < best)) {
+            best = position - start;
+        }
+    }
+
+    return best;
+}
+
+function scoreName(name: string, query: string): number | null {
+    const lowerName = name.toLowerCase();
+
+    if (lowerName === query) {
+        return 100;
+    }
+
+    if (lowerName.startsWith(query)) {
+        return 80;
+    }
+
+    if (lowerName.includes(query)) {
+        return 60;
+    }
+
+    const span = subsequenceSpan(lowerName, query);
+
+    // Tighter fuzzy matches score higher, e.g. "ordr" in "order" before "o_r_d_r"
+    return span === null ? null : Math.max(1, 40 - (span - query.length) * 2);
+}
+
+export async function searchSchema(
+    connectionManager: ConnectionManager,
+    input: SearchSchemaInput
+): Promise<SchemaSearchResult> {
+    const database = input.database || connectionManager.getDefaultDatabase();
+    const mode = input.mode || 'substring';
+    const text = input.query.trim().toLowerCase();
+    const limit = Math.min(input.limit || SEARCH_DEFAULT_LIMIT, SEARCH_MAX_LIMIT);
+
+    if (!text) {
+        throw new Error('Search query must not be empty');
+    }
+
+    const namePattern = mode === 'fuzzy' ? fuzzyPattern(text) : `%${escapeLike(text)}%`;
+    const commentPattern = `%${escapeLike(text)}%`;
+    const schemas = input.schemas && input.schemas.length > 0 ? input.schemas : null;
+
+    // Partitions are skipped: they repeat the columns of their parent table
+    const query = `
+    SELECT
+      'table' AS match_type,
+      n.nspname AS schema_name,
+      c.relname AS table_name,
+      NULL::text AS column_name,
+      ${RELATION_KIND_SQL} AS relation_kind,
+      NULL::text AS data_type,
+      COALESCE(obj_description(c.oid, 'pg_class'), '') AS object_comment
+    FROM
+      pg_class c
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    WHERE
+      c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND NOT c.relispartition
+      AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+      AND n.nspname NOT LIKE 'pg_toast%'
+      AND ($3::text[] IS NULL OR n.nspname = ANY($3::text[]))
+      AND (c.relname ILIKE $1 OR obj_description(c.oid, 'pg_class') ILIKE $2)
+
+    UNION ALL
+
+    SELECT
+      'column' AS match_type,
+      n.nspname AS schema_name,
+      c.relname AS table_name,
+      a.attname::text AS column_name,
+      ${RELATION_KIND_SQL} AS relation_kind,
+      format_type(a.atttypid, a.atttypmod) AS data_type,
+      COALESCE(col_description(c.oid, a.attnum), '') AS object_comment
+    FROM
+      pg_attribute a
+    JOIN
+      pg_class c ON c.oid = a.attrelid
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    WHERE
+      a.attnum > 0
+      AND NOT a.attisdropped
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND NOT c.relispartition
+      AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+      AND n.nspname NOT LIKE 'pg_toast%'
+      AND ($3::text[] IS NULL OR n.nspname = ANY($3::text[]))
+      AND (a.attname ILIKE $1 OR col_description(c.oid, a.attnum) ILIKE $2)
+  `;
+
+    const result = await connectionManager.executeQuery(
+        database,
+        query,
+        [namePattern, commentPattern, schemas],
+        LIMITS.QUERY_MAX
+    );
+
+    const policy = connectionManager.getAccessPolicy();
+    const matches: SchemaSearchMatch[] = [];
+
+    for (const row of result.rows) {
+        const type = row.match_type as 'table' | 'column';
+        const name = (type === 'table' ? row.table_name : row.column_name) as string;
+        const schema = row.schema_name as string;
+        const table = row.table_name as string;
+
+        if (policy.isTableDenied(database, schema, table)
+            || (type === 'column' && policy.columnAction(database, schema, table, name) === 'hide')) {
+            continue;
+        }
+        const comment = row.object_comment as string;
+        const nameScore = scoreName(name, text);
+
+        // Comment-only matches score 0, below every name match
+        const matchedOn = nameScore !== null ? 'name' : 'comment';
+
+        matches.push({
+            type,
+            schema,
+            table,
+            ...(type === 'column' ? { column: name, dataType: row.data_type as string } : {}),
+            relationKind: row.relation_kind as RelationKind,
+            comment,
+            matchedOn,
+            score: nameScore ?? 0
+        });
+    }
+
+    matches.sort((a, b) =>
+        b.score - a.score
+        || (a.type === b.type ? 0 : a.type === 'table' ? -1 : 1)
+        || a.schema.localeCompare(b.schema)
+        || a.table.localeCompare(b.table)
+        || (a.column ?? '').localeCompare(b.column ?? '')
+    );
+
+    return {
+        query: input.query,
+        mode,
+        matches: matches.slice(0, limit),
+        truncated: result.truncated || matches.length > limit
+    };
+}
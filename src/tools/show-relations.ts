@@ -1,5 +1,5 @@
 import { ConnectionManager, DatabaseType } from '../connection-manager.js';
-import { RelationInfo } from '../types.js';
+import { ColumnPair, LinkedTable, ReferentialAction, RelationInfo } from '../types.js';
 
 export interface ShowRelationsInput {
     table: string;
@@ -7,68 +7,238 @@ export interface ShowRelationsInput {
     schema?: string;
 }
 
+const REFERENTIAL_ACTIONS: Record<string, ReferentialAction> = {
+    a: 'NO ACTION',
+    r: 'RESTRICT',
+    c: 'CASCADE',
+    n: 'SET NULL',
+    d: 'SET DEFAULT'
+};
+
+/**
+ * SQL for the column names of a constraint key array (conkey or confkey) in key order
+ */
+export function constraintColumnsSql(alias: string, keyColumn: 'conkey' | 'confkey'): string {
+    const relation = keyColumn === 'conkey' ? 'conrelid' : 'confrelid';
+
+    return `ARRAY(
+        SELECT a.attname::text
+        FROM unnest(${alias}.${keyColumn}) WITH ORDINALITY AS k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = ${alias}.${relation} AND a.attnum = k.attnum
+        ORDER BY k.ord
+      )`;
+}
+
+/**
+ * SQL for the key columns (attnums) of `pg_index i`, excluding INCLUDE columns
+ */
+export const INDEX_KEY_SQL = 'ARRAY(SELECT i.indkey[k] FROM generate_series(0, i.indnkeyatts - 1) AS k)';
+
+export function toColumnPairs(columns: string[], referencedColumns: string[]): ColumnPair[] {
+    return columns.map((column, index) => ({
+        column,
+        referencedColumn: referencedColumns[index]
+    }));
+}
+
 export async function showRelations(
     connectionManager: ConnectionManager,
     input: ShowRelationsInput
 ): Promise<RelationInfo[]> {
-    const database = input.database || 'db';
+    const database = input.database || connectionManager.getDefaultDatabase();
     const schema = input.schema || 'public';
     const table = input.table;
+    const policy = connectionManager.getAccessPolicy();
 
-    const query = `
+    policy.assertTableAllowed(database, schema, table);
+
+    const tableQuery = `
     SELECT
-      kcu.table_name as table_name,
-      kcu.column_name as column_name,
-      ccu.table_name AS referenced_table_name,
-      ccu.column_name AS referenced_column_name,
-      tc.constraint_name
-    FROM 
-      information_schema.table_constraints AS tc 
-    JOIN 
-      information_schema.key_column_usage AS kcu
-      ON tc.constraint_name = kcu.constraint_name
-      AND tc.table_schema = kcu.table_schema
-    JOIN 
-      information_schema.constraint_column_usage AS ccu
-      ON ccu.constraint_name = tc.constraint_name
-      AND ccu.table_schema = tc.table_schema
-    WHERE 
-      tc.constraint_type = 'FOREIGN KEY' 
-      AND (
-        (tc.table_schema = $1 AND tc.table_name = $2)
-        OR
-        (ccu.table_schema = $1 AND ccu.table_name = $2)
+      c.oid::text AS oid
+    FROM
+      pg_class c
+    JOIN
+      pg_namespace n ON n.oid = c.relnamespace
+    WHERE
+      n.nspname = $1
+      AND c.relname = $2
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+  `;
+
+    const tableResult = await connectionManager.executeQuery(database, tableQuery, [schema, table]);
+
+    if (tableResult.rows.length === 0) {
+        throw new Error(`Table "${schema}.${table}" not found`);
+    }
+
+    const oid = tableResult.rows[0].oid as string;
+
+    // Foreign keys from and to the table. Columns come from conkey/confkey in key order, so composite
+    // keys stay paired. A foreign key whose columns contain a full unique key can match at most one row.
+    // conparentid = 0 skips the copies PostgreSQL creates for each partition.
+    const fkQuery = `
+    SELECT
+      con.conname AS constraint_name,
+      con.conrelid = $1::oid AS is_outgoing,
+      con.confrelid = $1::oid AS is_incoming,
+      cn.nspname AS table_schema,
+      cc.relname AS table_name,
+      rn.nspname AS referenced_schema,
+      rc.relname AS referenced_table,
+      ${constraintColumnsSql('con', 'conkey')} AS columns,
+      ${constraintColumnsSql('con', 'confkey')} AS referenced_columns,
+      con.confdeltype::text AS on_delete,
+      con.confupdtype::text AS on_update,
+      con.condeferrable AS deferrable,
+      con.condeferred AS initially_deferred,
+      EXISTS (
+        SELECT 1
+        FROM pg_index i
+        WHERE i.indrelid = con.conrelid
+          AND i.indisunique
+          AND i.indpred IS NULL
+          AND ${INDEX_KEY_SQL} <@ con.conkey
+      ) AS unique_columns
+    FROM
+      pg_constraint con
+    JOIN
+      pg_class cc ON cc.oid = con.conrelid
+    JOIN
+      pg_namespace cn ON cn.oid = cc.relnamespace
+    JOIN
+      pg_class rc ON rc.oid = con.confrelid
+    JOIN
+      pg_namespace rn ON rn.oid = rc.relnamespace
+    WHERE
+      con.contype = 'f'
+      AND con.conparentid = 0
+      AND (con.conrelid = $1::oid OR con.confrelid = $1::oid)
+    ORDER BY
+      cn.nspname, cc.relname, con.conname
+  `;
+
+    const fkResult = await connectionManager.executeQuery(database, fkQuery, [oid]);
+
+    // Join tables: a referencing table whose unique key is exactly the columns of two of its foreign keys
+    const linkQuery = `
+    SELECT
+      cn.nspname AS table_schema,
+      cc.relname AS table_name,
+      con.conname AS constraint_name,
+      tn.nspname AS linked_schema,
+      tc.relname AS linked_table,
+      con2.conname AS linked_constraint,
+      ${constraintColumnsSql('con2', 'conkey')} AS columns,
+      ${constraintColumnsSql('con2', 'confkey')} AS referenced_columns
+    FROM
+      pg_constraint con
+    JOIN
+      pg_constraint con2 ON con2.conrelid = con.conrelid
+        AND con2.contype = 'f'
+        AND con2.conparentid = 0
+        AND con2.oid <> con.oid
+    JOIN
+      pg_class cc ON cc.oid = con.conrelid
+    JOIN
+      pg_namespace cn ON cn.oid = cc.relnamespace
+    JOIN
+      pg_class tc ON tc.oid = con2.confrelid
+    JOIN
+      pg_namespace tn ON tn.oid = tc.relnamespace
+    WHERE
+      con.contype = 'f'
+      AND con.conparentid = 0
+      AND con.confrelid = $1::oid
+      AND EXISTS (
+        SELECT 1
+        FROM pg_index i
+        WHERE i.indrelid = con.conrelid
+          AND i.indisunique
+          AND i.indpred IS NULL
+          AND ${INDEX_KEY_SQL} @> (con.conkey || con2.conkey)
+          AND ${INDEX_KEY_SQL} <@ (con.conkey || con2.conkey)
       )
+    ORDER BY
+      tn.nspname, tc.relname, con2.conname
   `;
 
-    const result = await connectionManager.executeQuery(database, query, [schema, table]);
+    const linkResult = await connectionManager.executeQuery(database, linkQuery, [oid]);
+    const linkedTables = new Map<string, LinkedTable[]>();
+
+    for (const row of linkResult.rows) {
+        if (policy.isForeignKeyHidden(
+            database,
+            { schema: row.table_schema as string, table: row.table_name as string, columns: row.columns as string[] },
+            { schema: row.linked_schema as string, table: row.linked_table as string, columns: row.referenced_columns as string[] }
+        )) {
+            continue;
+        }
+
+        const key = `${row.table_schema}.${row.table_name}.${row.constraint_name}`;
+        const links = linkedTables.get(key) ?? [];
+
+        links.push({
+            schema: row.linked_schema as string,
+            table: row.linked_table as string,
+            foreignKey: row.linked_constraint as string,
+            columns: toColumnPairs(row.columns as string[], row.referenced_columns as string[])
+        });
+
+        linkedTables.set(key, links);
+    }
 
     const relations: RelationInfo[] = [];
 
-    for (const row of result.rows) {
-        const tableName = row.table_name as string;
-        // const columnName = row.column_name as string;
-        const referencedTable = row.referenced_table_name as string;
-        // const referencedColumn = row.referenced_column_name as string;
-        const constraintName = row.constraint_name as string;
+    for (const row of fkResult.rows) {
+        if (policy.isForeignKeyHidden(
+            database,
+            { schema: row.table_schema as string, table: row.table_name as string, columns: row.columns as string[] },
+            { schema: row.referenced_schema as string, table: row.referenced_table as string, columns: row.referenced_columns as string[] }
+        )) {
+            continue;
+        }
 
-        if (tableName === table) {
-            // Outgoing relation (this table references another)
-            relations.push({
-                table: referencedTable,
-                column: row.column_name as string,
-                foreignKey: constraintName,
-                relationType: 'one-to-one' // Simplified assumption, detecting true 1:1 vs 1:N requires unique constraint check
-            });
-        } else {
-            // Incoming relation (other table references this one)
+        const columns = toColumnPairs(row.columns as string[], row.referenced_columns as string[]);
+        const uniqueColumns = row.unique_columns as boolean;
+        const base = {
+            column: columns[0].column,
+            columns,
+            foreignKey: row.constraint_name as string,
+            referencedSchema: row.referenced_schema as string,
+            referencedTable: row.referenced_table as string,
+            onDelete: REFERENTIAL_ACTIONS[row.on_delete as string],
+            onUpdate: REFERENTIAL_ACTIONS[row.on_update as string],
+            deferrable: row.deferrable as boolean,
+            initiallyDeferred: row.initially_deferred as boolean
+        };
+
+        // A self-referencing foreign key is listed in both directions
+        if (row.is_outgoing) {
             relations.push({
-                table: tableName,
-                column: row.column_name as string,
-                foreignKey: constraintName,
-                relationType: 'one-to-many' // Usually incoming FK means 1:N
+                table: row.referenced_table as string,
+                schema: row.referenced_schema as string,
+                ...base,
+                direction: 'outgoing',
+                relationType: uniqueColumns ? 'one-to-one' : 'many-to-one'
             });
         }
+
+        if (row.is_incoming) {
+            const links = linkedTables.get(`${row.table_schema}.${row.table_name}.${row.constraint_name}`);
+            const relation: RelationInfo = {
+                table: row.table_name as string,
+                schema: row.table_schema as string,
+                ...base,
+                direction: 'incoming',
+                relationType: uniqueColumns ? 'one-to-one' : links ? 'many-to-many' : 'one-to-many'
+            };
+
+            if (links && !uniqueColumns) {
+                relation.linkedTables = links;
+            }
+
+            relations.push(relation);
+        }
     }
 
     return relations;
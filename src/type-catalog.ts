@@ -0,0 +1,219 @@
+/**
+ * Type Catalog Module
+ *
+ * Resolves PostgreSQL type OIDs to type names using pg_type.
+ * Handles domains, enums and array element types, and decodes type
+ * modifiers (varchar length, numeric precision/scale, time precision).
+ *
+ * @module type-catalog
+ */
+
+import { FieldDef, PoolClient } from 'pg';
+import { FieldInfo } from './types.js';
+
+/**
+ * Cached pg_type entry
+ */
+interface TypeEntry {
+    name: string;
+    isArray: boolean;
+    elementType?: string;
+    baseType?: string;
+    enumLabels?: string[];
+}
+
+/**
+ * Built-in type names used when pg_type cannot be queried
+ */
+const FALLBACK_TYPE_NAMES: Record<number, string> = {
+    16: 'bool',
+    17: 'bytea',
+    18: 'char',
+    19: 'name',
+    20: 'int8',
+    21: 'int2',
+    23: 'int4',
+    25: 'text',
+    114: 'json',
+    700: 'float4',
+    701: 'float8',
+    1043: 'varchar',
+    1082: 'date',
+    1114: 'timestamp',
+    1184: 'timestamptz',
+    1700: 'numeric',
+    2950: 'uuid',
+    3802: 'jsonb'
+};
+
+// Schemas whose types are shown without qualification
+const UNQUALIFIED_SCHEMAS = ['pg_catalog', 'public'];
+
+// varlena header size included in character and numeric type modifiers
+const VARHDRSZ = 4;
+
+const TYPE_QUERY = `
+  SELECT
+    t.oid::int8 AS oid,
+    t.typname,
+    n.nspname,
+    t.typcategory = 'A' AND t.typelem <> 0 AS is_array,
+    el.typname AS element_name,
+    eln.nspname AS element_schema,
+    bt.typname AS base_name,
+    btn.nspname AS base_schema,
+    (
+      SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder)
+      FROM pg_enum e
+      WHERE e.enumtypid = CASE WHEN t.typcategory = 'A' AND t.typelem <> 0 THEN t.typelem ELSE t.oid END
+    ) AS enum_labels
+  FROM pg_type t
+  JOIN pg_namespace n ON n.oid = t.typnamespace
+  LEFT JOIN pg_type el ON el.oid = t.typelem AND t.typcategory = 'A'
+  LEFT JOIN pg_namespace eln ON eln.oid = el.typnamespace
+  LEFT JOIN pg_type bt ON bt.oid = t.typbasetype AND t.typtype = 'd'
+  LEFT JOIN pg_namespace btn ON btn.oid = bt.typnamespace
+  WHERE t.oid = ANY($1::oid[])
+`;
+
+function qualify(schema: string | null, name: string): string {
+    return schema && !UNQUALIFIED_SCHEMAS.includes(schema) ? `${schema}.${name}` : name;
+}
+
+/**
+ * Decodes a type modifier (atttypmod) into length, precision and scale
+ */
+function decodeTypeModifier(typeName: string, typmod: number): Pick<FieldInfo, 'length' | 'precision' | 'scale'> {
+    if (typmod < 0) {
+        return {};
+    }
+
+    switch (typeName) {
+        case 'varchar':
+        case 'bpchar':
+            return { length: typmod - VARHDRSZ };
+
+        case 'bit':
+        case 'varbit':
+            return { length: typmod };
+
+        case 'numeric': {
+            const value = typmod - VARHDRSZ;
+            return { precision: (value >> 16) & 0xffff, scale: value & 0xffff };
+        }
+
+        case 'time':
+        case 'timetz':
+        case 'timestamp':
+        case 'timestamptz':
+            return { precision: typmod };
+
+        case 'interval': {
+            // Low 16 bits hold the precision; 0xffff means none was declared (e.g. INTERVAL DAY)
+            const precision = typmod & 0xffff;
+            return precision === 0xffff ? {} : { precision };
+        }
+
+        default:
+            return {};
+    }
+}
+
+/**
+ * Per-database cache of pg_type entries
+ */
+export class TypeCatalog {
+    private entries: Map<number, TypeEntry> = new Map();
+
+    /**
+     * Converts pg field definitions to FieldInfo, loading unknown type OIDs from pg_type
+     * on the given client (so the lookup runs inside the caller's transaction)
+     */
+    async describeFields(client: PoolClient, fields: FieldDef[]): Promise<FieldInfo[]> {
+        const missing = Array.from(new Set(fields.map(field => field.dataTypeID)))
+            .filter(oid => !this.entries.has(oid));
+
+        if (missing.length > 0) {
+            try {
+                await this.load(client, missing);
+            } catch {
+                // Fall back to built-in names; a failed lookup must not fail the query itself
+            }
+        }
+
+        return fields.map(field => this.describeField(field));
+    }
+
+    /**
+     * Clears cached entries, e.g. after enum labels or domains change
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+
+    private async load(client: PoolClient, oids: number[]): Promise<void> {
+        const result = await client.query(TYPE_QUERY, [oids]);
+
+        for (const row of result.rows) {
+            const isArray = row.is_array === true;
+            const entry: TypeEntry = {
+                name: isArray
+                    ? `${qualify(row.element_schema, row.element_name)}[]`
+                    : qualify(row.nspname, row.typname),
+                isArray
+            };
+
+            if (isArray) {
+                entry.elementType = qualify(row.element_schema, row.element_name);
+            }
+
+            if (row.base_name) {
+                entry.baseType = qualify(row.base_schema, row.base_name);
+            }
+
+            if (Array.isArray(row.enum_labels)) {
+                entry.enumLabels = row.enum_labels as string[];
+            }
+
+            this.entries.set(Number(row.oid), entry);
+        }
+    }
+
+    private describeField(field: FieldDef): FieldInfo {
+        const entry = this.entries.get(field.dataTypeID);
+
+        if (!entry) {
+            return {
+                name: field.name,
+                type: FALLBACK_TYPE_NAMES[field.dataTypeID] || `OID(${field.dataTypeID})`,
+                isArray: false
+            };
+        }
+
+        const info: FieldInfo = {
+            name: field.name,
+            type: entry.name,
+            isArray: entry.isArray
+        };
+
+        if (entry.elementType) {
+            info.elementType = entry.elementType;
+        }
+
+        if (entry.baseType) {
+            info.baseType = entry.baseType;
+        }
+
+        if (entry.enumLabels) {
+            info.enumLabels = entry.enumLabels;
+        }
+
+        // Array modifiers describe the element type, e.g. varchar(20)[]
+        const modifierType = entry.elementType ?? entry.baseType ?? entry.name;
+
+        return {
+            ...info,
+            ...decodeTypeModifier(modifierType, field.dataTypeModifier)
+        };
+    }
+}
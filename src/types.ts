@@ -20,6 +20,42 @@ export interface QueryResult {
     fields: FieldInfo[];
     rowCount: number;
     truncated: boolean;
+    cursor?: string; // Continuation token for the next page of a paginated read
+    piiMasked?: PiiMaskingInfo; // Present when the PII scanner masked values in this result
+}
+
+/**
+ * Per-query options for results returned to the client; tools' own queries leave them unset
+ */
+export interface QueryOptions {
+    scanPii?: boolean; // Mask personal data with the PII scanner, when one is configured
+    checkCost?: boolean; // Check the plan with the cost guard before running; set for user-supplied SQL
+}
+
+/**
+ * Kind of personal data detected by the PII scanner
+ */
+export type PiiKind = 'email' | 'phone' | 'card' | 'iban' | 'national_id' | 'jwt';
+
+export const PII_KINDS: PiiKind[] = ['email', 'phone', 'card', 'iban', 'national_id', 'jwt'];
+
+/**
+ * How detected values are replaced: `[REDACTED]`, partially (`j***@example.com`) or by a stable hash
+ */
+export type PiiStrategy = 'redact' | 'partial' | 'hash';
+
+export const PII_STRATEGIES: PiiStrategy[] = ['redact', 'partial', 'hash'];
+
+/**
+ * Columns in which the PII scanner masked values
+ */
+export interface PiiMaskingInfo {
+    strategy: PiiStrategy;
+    columns: Array<{
+        column: string;
+        kinds: PiiKind[]; // What was detected in the column
+        values: number; // Number of values with at least one masked match
+    }>;
 }
 
 /**
@@ -27,7 +63,51 @@ export interface QueryResult {
  */
 export interface FieldInfo {
     name: string;
-    type: string;
+    type: string; // Type name from pg_type, e.g. 'int4', 'numeric', 'text[]', 'billing.status'
+    isArray: boolean;
+    elementType?: string; // Element type for arrays
+    baseType?: string; // Underlying type for domains
+    enumLabels?: string[]; // Labels for enum types (or arrays of enums), in sort order
+    length?: number; // varchar/char/bit length
+    precision?: number; // numeric precision, or fractional-second precision for time types
+    scale?: number; // numeric scale
+}
+
+/**
+ * Result of the startup read-only check for a database
+ */
+export interface ReadOnlyStatus {
+    database: string;
+    role: string;
+    defaultTransactionReadOnly: boolean; // default_transaction_read_only session setting
+    transactionReadOnly: boolean; // transaction_read_only inside the query transaction
+    writePrivileges: string[]; // Privileges the role holds that would allow writes, empty if none
+}
+
+/**
+ * SQL statement sent to a database during a tool call, as written to the audit log
+ */
+export interface AuditStatement {
+    database: string;
+    sql: string; // Final SQL sent, e.g. with the row limit wrapper added
+    params?: unknown[];
+    durationMs: number;
+    rowCount?: number;
+    truncated?: boolean;
+    error?: string;
+}
+
+/**
+ * One tool call in the audit log
+ */
+export interface AuditEntry {
+    timestamp: string; // ISO 8601 start of the call
+    tool: string;
+    arguments: Record<string, unknown>;
+    databases: string[]; // Targets the call ran statements on, or the requested target if none ran
+    durationMs: number;
+    statements: AuditStatement[];
+    error?: string;
 }
 
 /**
@@ -37,16 +117,54 @@ export interface ValidationResult {
     valid: boolean;
     error?: string;
     queryType?: 'SELECT';
+    node?: string; // AST node type that caused the rejection, e.g. 'DeleteStmt' or 'FuncCall'
+    position?: number; // Zero-based character offset of the offending node in the query
+    placeholders?: number[]; // Sorted, de-duplicated `$n` placeholder numbers used by a valid query
 }
 
+/**
+ * Kind of relation, derived from pg_class.relkind and relispartition
+ */
+export type RelationKind =
+    | 'table'
+    | 'partitioned table'
+    | 'partition'
+    | 'view'
+    | 'materialized view'
+    | 'foreign table';
+
+export const RELATION_KINDS: RelationKind[] = [
+    'table',
+    'partitioned table',
+    'partition',
+    'view',
+    'materialized view',
+    'foreign table'
+];
+
 /**
  * Table information
  */
 export interface TableInfo {
     name: string;
-    type: string; // 'BASE TABLE' | 'VIEW'
-    rowCount: number;
+    type: RelationKind;
+    rowCount: number; // Estimate; summed over partitions for partitioned tables, 0 for views
     schema: string; // PostgreSQL specific: schema name
+    size: string; // Total size including indexes and TOAST, e.g. '8192 bytes'
+    sizeBytes: number;
+    comment: string;
+}
+
+/**
+ * Schema information
+ */
+export interface SchemaInfo {
+    name: string;
+    owner: string;
+    tableCount: number; // Tables, partitions, views, materialized views and foreign tables
+    size: string; // Total size of tables and materialized views including indexes and TOAST
+    sizeBytes: number;
+    comment: string;
 }
 
 /**
@@ -54,11 +172,16 @@ export interface TableInfo {
  */
 export interface ColumnInfo {
     name: string;
-    type: string;
+    type: string; // Declared type, e.g. 'character varying(100)', 'numeric(12,2)', 'text[]'
     nullable: boolean;
     default: string | null;
-    extra: string; // Used for things like auto-increment (serial)
+    extra: string; // 'serial', 'identity always', 'identity by default', 'generated stored' or 'generated virtual'
     comment: string;
+    identity?: 'always' | 'by default';
+    generatedExpression?: string;
+    sequence?: string; // Owned sequence (serial or identity), schema-qualified
+    enumLabels?: string[]; // Labels of the enum type (or of the element type of an enum array)
+    masked?: boolean; // Values are masked by the access policy
 }
 
 /**
@@ -67,28 +190,93 @@ export interface ColumnInfo {
 export interface ForeignKeyInfo {
     name: string;
     column: string;
+    referencedSchema: string;
     referencedTable: string;
     referencedColumn: string;
 }
 
+/**
+ * Check, unique or exclusion constraint
+ */
+export interface ConstraintInfo {
+    name: string;
+    type: 'check' | 'unique' | 'exclusion';
+    columns: string[];
+    definition: string; // e.g. 'CHECK (amount >= 0::numeric)'
+    deferrable: boolean;
+}
+
 /**
  * Index information for table schema
  */
 export interface IndexInfo {
     name: string;
-    columns: string[];
+    columns: string[]; // Key columns in order; expression keys appear as their SQL text
+    expressions: string[]; // Key parts that are expressions rather than plain columns
+    include: string[]; // Non-key columns from INCLUDE (...)
+    predicate: string | null; // WHERE clause of a partial index
     unique: boolean;
-    type: string;
+    primary: boolean;
+    type: string; // Access method: btree, hash, gin, gist, spgist, brin, ...
+    definition: string;
+}
+
+/**
+ * Partitioning of a partitioned table
+ */
+export interface PartitioningInfo {
+    strategy: 'range' | 'list' | 'hash';
+    key: string; // Partition key columns or expressions, e.g. 'created_at'
+    partitions: Array<{ schema: string; table: string; bound: string }>;
+}
+
+/**
+ * Parent of a partition
+ */
+export interface PartitionOfInfo {
+    schema: string;
+    table: string;
+    bound: string; // e.g. "FOR VALUES FROM ('2024-01-01') TO ('2025-01-01')"
 }
 
 /**
  * Relation information for table relationships
  */
 export interface RelationInfo {
-    table: string;
+    table: string; // Related table
+    schema: string; // Schema of the related table
+    column: string; // First referencing column; see `columns` for composite keys
+    columns: ColumnPair[];
+    foreignKey: string;
+    direction: 'outgoing' | 'incoming'; // outgoing: the described table holds the foreign key
+    referencedSchema: string;
+    referencedTable: string;
+    relationType: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+    onDelete: ReferentialAction;
+    onUpdate: ReferentialAction;
+    deferrable: boolean;
+    initiallyDeferred: boolean;
+    linkedTables?: LinkedTable[]; // For many-to-many: tables reached through the related join table
+}
+
+/**
+ * Column of a foreign key and the column it references
+ */
+export interface ColumnPair {
     column: string;
+    referencedColumn: string;
+}
+
+export type ReferentialAction = 'NO ACTION' | 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+
+/**
+ * Table on the other side of a join table, with the join table's foreign key to it
+ */
+export interface LinkedTable {
+    schema: string;
+    table: string;
     foreignKey: string;
-    relationType: 'one-to-one' | 'one-to-many';
+    columns: ColumnPair[];
 }
 
 /**
@@ -109,5 +297,7 @@ export const LIMITS = {
     QUERY_DEFAULT: 1000,
     QUERY_MAX: 5000,
     TIMEOUT_MS: 30000,
-    TEXT_TRUNCATE: 200
+    TEXT_TRUNCATE: 200,
+    CURSOR_IDLE_MS: 300000,
+    CURSOR_MAX_OPEN: 2 // Per database; each open cursor holds a pooled connection
 } as const;
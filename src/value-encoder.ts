@@ -0,0 +1,365 @@
+/**
+ * Value Encoder Module
+ *
+ * Converts PostgreSQL values into JSON-safe representations that keep their
+ * meaning: exact numerics, timestamps with explicit offsets, bytea as hex or
+ * base64, ISO 8601 intervals and structured ranges.
+ *
+ * @module value-encoder
+ */
+
+import pg, { CustomTypesConfig } from 'pg';
+import { FieldInfo, QueryResult, LIMITS } from './types.js';
+
+/**
+ * Per-call encoding options
+ */
+export interface EncodingOptions {
+    bytea?: 'hex' | 'base64';
+    numeric?: 'tagged' | 'string' | 'number';
+    int8?: 'number' | 'string'; // 'number' keeps values outside the safe integer range as tagged strings
+    timestamps?: 'iso' | 'raw';
+    intervals?: 'iso' | 'raw';
+    ranges?: 'object' | 'raw';
+}
+
+/**
+ * Encoding used when a call does not override an option
+ */
+export const DEFAULT_ENCODING: Required<EncodingOptions> = {
+    bytea: 'hex',
+    numeric: 'tagged',
+    int8: 'number',
+    timestamps: 'iso',
+    intervals: 'iso',
+    ranges: 'object'
+};
+
+/**
+ * Value with its PostgreSQL type attached, e.g. `{ "$type": "numeric", "value": "1.50" }`
+ */
+export interface TaggedValue {
+    $type: string;
+    value: string;
+}
+
+export interface EncodedBytea {
+    $type: 'bytea';
+    encoding: 'hex' | 'base64';
+    size: number; // Size in bytes of the full value
+    data: string;
+    truncated?: boolean;
+}
+
+export interface EncodedRange {
+    $type: string;
+    empty: boolean;
+    lower?: unknown;
+    upper?: unknown;
+    lowerInclusive?: boolean;
+    upperInclusive?: boolean;
+}
+
+// Types returned as PostgreSQL text so no precision or timezone is lost in Date/object conversion
+const RAW_TEXT_OIDS = [
+    1082, // date
+    1114, // timestamp
+    1184, // timestamptz
+    1186 // interval
+];
+
+// Arrays of the types above (and numeric[], which pg parses as floats), parsed as text[] so elements stay exact
+const RAW_TEXT_ARRAY_OIDS = [
+    1182, // date[]
+    1115, // timestamp[]
+    1185, // timestamptz[]
+    1187, // interval[]
+    1231 // numeric[]
+];
+
+const TEXT_ARRAY_OID = 1009;
+
+// pg's typings only accept built-in scalar OIDs, but array OIDs have parsers too
+const getBuiltinParser = pg.types.getTypeParser as (oid: number, format?: 'text' | 'binary') => unknown;
+
+// pg has no parser for arrays of enums and other non-built-in types; they arrive as literals such as `{sad,ok}`
+const parseTextArray = getBuiltinParser(TEXT_ARRAY_OID) as (value: string) => unknown[];
+
+/**
+ * Type parsers for connection pools: keeps date/time/interval values as exact text
+ */
+export const rawTemporalTypes: CustomTypesConfig = {
+    getTypeParser: ((oid: number, format?: 'text' | 'binary') => {
+        if (RAW_TEXT_OIDS.includes(oid)) {
+            return (value: string) => value;
+        }
+
+        if (RAW_TEXT_ARRAY_OIDS.includes(oid)) {
+            return getBuiltinParser(TEXT_ARRAY_OID, format);
+        }
+
+        return getBuiltinParser(oid, format);
+    }) as CustomTypesConfig['getTypeParser']
+};
+
+/**
+ * Converts PostgreSQL ISO DateStyle output to ISO 8601.
+ * `2024-01-31 10:00:00.5+05:30` -> `2024-01-31T10:00:00.5+05:30`, `+00` -> `+00:00`.
+ */
+function toIsoTimestamp(value: string): string {
+    // infinity, -infinity and BC dates have no ISO 8601 form; keep them as-is
+    if (!/^\d{4}-\d{2}-\d{2} /.test(value) || value.endsWith(' BC')) {
+        return value;
+    }
+
+    return value
+        .replace(' ', 'T')
+        .replace(/([+-]\d{2})$/, '$1:00');
+}
+
+/**
+ * Converts PostgreSQL `postgres` IntervalStyle output to an ISO 8601 duration.
+ * `1 year 2 mons 3 days 04:05:06.5` -> `P1Y2M3DT4H5M6.5S`.
+ */
+function toIsoInterval(value: string): string {
+    if (value.startsWith('P')) {
+        return value;
+    }
+
+    const units: Record<string, string> = {
+        year: 'Y', years: 'Y', mon: 'M', mons: 'M', day: 'D', days: 'D'
+    };
+
+    let datePart = '';
+    let timePart = '';
+
+    for (const match of value.matchAll(/(-?\d+) (years?|mons?|days?)/g)) {
+        datePart += `${parseInt(match[1], 10)}${units[match[2]]}`;
+    }
+
+    const time = value.match(/([+-])?(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+
+    if (time) {
+        const sign = time[1] === '-' ? '-' : '';
+        const hours = parseInt(time[2], 10);
+        const minutes = parseInt(time[3], 10);
+        const seconds = parseFloat(time[4]);
+
+        if (hours) {
+            timePart += `${sign}${hours}H`;
+        }
+
+        if (minutes) {
+            timePart += `${sign}${minutes}M`;
+        }
+
+        if (seconds) {
+            timePart += `${sign}${time[4].replace(/^0(\d)/, '$1')}S`;
+        }
+    }
+
+    if (!datePart && !timePart) {
+        return 'PT0S';
+    }
+
+    return `P${datePart}${timePart ? `T${timePart}` : ''}`;
+}
+
+/**
+ * Parses a range literal such as `[1,5)`, `(,2024-01-01]` or `empty`
+ */
+function parseRange(value: string, typeName: string, encodeBound: (bound: string) => unknown): EncodedRange | string {
+    if (value === 'empty') {
+        return { $type: typeName, empty: true };
+    }
+
+    const match = value.match(/^([[(])(.*),(.*)([\])])$/);
+
+    if (!match) {
+        return value;
+    }
+
+    const unquote = (bound: string): string => bound.replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1');
+    const range: EncodedRange = {
+        $type: typeName,
+        empty: false,
+        lowerInclusive: match[1] === '[',
+        upperInclusive: match[4] === ']'
+    };
+
+    // A missing bound means the range is unbounded on that side
+    range.lower = match[2] === '' ? null : encodeBound(unquote(match[2]));
+    range.upper = match[3] === '' ? null : encodeBound(unquote(match[3]));
+
+    return range;
+}
+
+/**
+ * Splits a multirange literal `{[1,2),[5,8)}` into its range literals
+ */
+function splitMultirange(value: string): string[] {
+    return value.replace(/^\{|\}$/g, '').match(/[[(][^\])]*[\])]|empty/g) ?? [];
+}
+
+function encodeBytea(value: Buffer, mode: 'hex' | 'base64'): EncodedBytea {
+    // Keep roughly TEXT_TRUNCATE characters of encoded data; `size` always reports the full value
+    const maxBytes = mode === 'hex' ? LIMITS.TEXT_TRUNCATE / 2 : Math.floor(LIMITS.TEXT_TRUNCATE * 3 / 4);
+    const truncated = value.length > maxBytes;
+    const encoded: EncodedBytea = {
+        $type: 'bytea',
+        encoding: mode,
+        size: value.length,
+        data: (truncated ? value.subarray(0, maxBytes) : value).toString(mode)
+    };
+
+    if (truncated) {
+        encoded.truncated = true;
+    }
+
+    return encoded;
+}
+
+/**
+ * Encodes a single scalar value of the given PostgreSQL type
+ */
+function encodeScalar(value: unknown, typeName: string, options: Required<EncodingOptions>): unknown {
+    if (value === null || value === undefined) {
+        return null;
+    }
+
+    if (Buffer.isBuffer(value)) {
+        return encodeBytea(value, options.bytea);
+    }
+
+    if (typeof value !== 'string') {
+        return value;
+    }
+
+    switch (typeName) {
+        case 'numeric':
+            if (options.numeric === 'number') {
+                return Number(value);
+            }
+            return options.numeric === 'tagged' ? { $type: 'numeric', value } : value;
+
+        case 'int8':
+            if (options.int8 === 'number' && Number.isSafeInteger(Number(value))) {
+                return Number(value);
+            }
+            return options.int8 === 'number' ? { $type: 'int8', value } : value;
+
+        case 'date':
+        case 'timestamp':
+        case 'timestamptz':
+            return options.timestamps === 'iso' ? toIsoTimestamp(value) : value;
+
+        case 'interval':
+            return options.intervals === 'iso' ? toIsoInterval(value) : value;
+    }
+
+    if (options.ranges === 'object' && typeName.endsWith('multirange')) {
+        const rangeType = typeName.replace(/multirange$/, 'range');
+        return splitMultirange(value).map(range => encodeRangeValue(range, rangeType, options));
+    }
+
+    if (options.ranges === 'object' && typeName.endsWith('range')) {
+        return encodeRangeValue(value, typeName, options);
+    }
+
+    return value;
+}
+
+function encodeRangeValue(value: string, typeName: string, options: Required<EncodingOptions>): EncodedRange | string {
+    // Built-in range types map to their subtype; other bounds are kept as text
+    const subtypes: Record<string, string> = {
+        int4range: 'int4', int8range: 'int8', numrange: 'numeric',
+        tsrange: 'timestamp', tstzrange: 'timestamptz', daterange: 'date'
+    };
+    const subtype = subtypes[typeName];
+
+    return parseRange(value, typeName, bound => {
+        if (subtype === 'int4') {
+            return Number(bound);
+        }
+
+        return subtype ? encodeScalar(bound, subtype, options) : bound;
+    });
+}
+
+/**
+ * Encodes a value (or array of values) according to its field type
+ */
+function encodeValue(value: unknown, field: FieldInfo, options: Required<EncodingOptions>): unknown {
+    const elements = field.isArray && typeof value === 'string' ? parseTextArray(value) : value;
+
+    if (field.isArray && Array.isArray(elements)) {
+        const elementType = field.elementType ?? field.type.replace(/\[\]$/, '');
+        const encodeElement = (element: unknown): unknown => Array.isArray(element)
+            ? element.map(encodeElement)
+            : encodeScalar(element, elementType, options);
+
+        return elements.map(encodeElement);
+    }
+
+    return encodeScalar(value, field.baseType ?? field.type, options);
+}
+
+const ALLOWED_ENCODING_VALUES: Record<keyof EncodingOptions, string[]> = {
+    bytea: ['hex', 'base64'],
+    numeric: ['tagged', 'string', 'number'],
+    int8: ['number', 'string'],
+    timestamps: ['iso', 'raw'],
+    intervals: ['iso', 'raw'],
+    ranges: ['object', 'raw']
+};
+
+/**
+ * Validates encoding options supplied with a tool call
+ */
+export function parseEncodingOptions(input: unknown): EncodingOptions | undefined {
+    if (input === undefined || input === null) {
+        return undefined;
+    }
+
+    if (typeof input !== 'object' || Array.isArray(input)) {
+        throw new Error('Invalid encoding: expected an object');
+    }
+
+    for (const [key, value] of Object.entries(input)) {
+        const allowed = ALLOWED_ENCODING_VALUES[key as keyof EncodingOptions];
+
+        if (!allowed) {
+            throw new Error(`Invalid encoding option "${key}". Allowed options: ${Object.keys(ALLOWED_ENCODING_VALUES).join(', ')}`);
+        }
+
+        if (!allowed.includes(value as string)) {
+            throw new Error(`Invalid encoding.${key}: "${String(value)}". Allowed values: ${allowed.join(', ')}`);
+        }
+    }
+
+    return input as EncodingOptions;
+}
+
+/**
+ * Encodes all row values of a query result for JSON output
+ */
+export function encodeResult(result: QueryResult, options: EncodingOptions = {}): QueryResult {
+    const resolved: Required<EncodingOptions> = { ...DEFAULT_ENCODING, ...options };
+    const fieldsByName = new Map(result.fields.map(field => [field.name, field]));
+
+    const rows = result.rows.map(row => {
+        const encoded: Record<string, unknown> = {};
+
+        for (const [key, value] of Object.entries(row)) {
+            const field = fieldsByName.get(key);
+            encoded[key] = field ? encodeValue(value, field, resolved) : value;
+        }
+
+        return encoded;
+    });
+
+    return {
+        ...result,
+        rows
+    };
+}
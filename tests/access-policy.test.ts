@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { AccessPolicy, MASKED_VALUE } from '../src/access-policy.js';
+import { ConnectionManager } from '../src/connection-manager.js';
+import { QueryResult } from '../src/types.js';
+
+// Tables the search path resolves unqualified names to
+const SEARCH_PATH: Record<string, string> = {
+    users: 'public',
+    orders: 'public',
+    api_keys: 'public',
+    entries: 'audit'
+};
+
+/**
+ * Stands in for the connection manager; checkQuery only uses it to resolve unqualified table names
+ */
+const connectionManager = {
+    executeQuery: async (_database: string, _query: string, params: unknown[] = []) => ({
+        rows: (params[0] as string[])
+            .filter(name => SEARCH_PATH[name])
+            .map(name => ({ name, schema_name: SEARCH_PATH[name] })),
+        fields: [],
+        rowCount: 0,
+        truncated: false
+    })
+} as unknown as ConnectionManager;
+
+const policy = new AccessPolicy({
+    denySchemas: ['audit'],
+    denyTables: ['public.api_keys'],
+    hideColumns: ['users.password_hash', '*_token'],
+    maskColumns: ['users.email']
+});
+
+function check(query: string) {
+    return policy.checkQuery(connectionManager, 'db', query);
+}
+
+describe('AccessPolicy.checkQuery', () => {
+    it.each([
+        'SELECT id, name FROM users',
+        'SELECT id, email FROM users',
+        'SELECT * FROM users',
+        'SELECT u.id, u.email FROM users u JOIN orders o ON o.user_id = u.id WHERE o.total > 10',
+        'SELECT count(*) FROM orders'
+    ])('allows %s', async query => {
+        await expect(check(query)).resolves.toBeDefined();
+    });
+
+    it('returns the column rules of the tables read', async () => {
+        const rules = await check('SELECT * FROM users');
+
+        expect(rules.map(rule => rule.pattern).sort()).toEqual(['*_token', 'users.email', 'users.password_hash']);
+        expect(await check('SELECT * FROM orders')).toEqual(
+            expect.arrayContaining([expect.objectContaining({ pattern: '*_token' })])
+        );
+    });
+
+    describe('denied tables and schemas', () => {
+        it.each([
+            'SELECT * FROM api_keys',
+            'SELECT * FROM public.api_keys',
+            'SELECT * FROM "API_KEYS"',
+            'SELECT * FROM orders WHERE EXISTS (SELECT 1 FROM api_keys)',
+            'WITH k AS (SELECT * FROM api_keys) SELECT * FROM k',
+            'SELECT * FROM orders o JOIN LATERAL (SELECT * FROM api_keys a WHERE a.id = o.id) x ON true',
+            'SELECT id FROM orders UNION SELECT id FROM api_keys'
+        ])('rejects %s', async query => {
+            await expect(check(query)).rejects.toThrow(/api_keys" is denied/i);
+        });
+
+        it.each([
+            'SELECT * FROM audit.entries',
+            'SELECT * FROM entries',
+            'SELECT * FROM AUDIT.entries'
+        ])('rejects %s', async query => {
+            await expect(check(query)).rejects.toThrow('Schema "audit" is denied');
+        });
+    });
+
+    describe('statistics and dynamic SQL', () => {
+        it.each([
+            'SELECT most_common_vals FROM pg_catalog.pg_stats WHERE tablename = \'users\'',
+            'SELECT * FROM pg_catalog.pg_statistic'
+        ])('rejects %s', async query => {
+            await expect(check(query)).rejects.toThrow('exposes sampled column values');
+        });
+
+        it.each([
+            'SELECT query_to_xml(\'SELECT * FROM api_keys\', true, false, \'\')',
+            'SELECT table_to_xml(\'users\', true, false, \'\')',
+            'SELECT * FROM ts_stat(\'SELECT to_tsvector(password_hash) FROM users\')'
+        ])('rejects %s', async query => {
+            await expect(check(query)).rejects.toThrow('runs SQL from a string');
+        });
+    });
+
+    describe('hidden columns', () => {
+        it.each([
+            'SELECT password_hash FROM users',
+            'SELECT u.password_hash FROM users u',
+            'SELECT id FROM users WHERE password_hash LIKE \'a%\'',
+            'SELECT id FROM users ORDER BY password_hash',
+            'SELECT md5(password_hash) FROM users',
+            'SELECT password_hash AS x FROM users',
+            'SELECT refresh_token FROM orders'
+        ])('rejects %s', async query => {
+            await expect(check(query)).rejects.toThrow(/is hidden by the access policy/);
+        });
+
+        it.each([
+            'SELECT * FROM (SELECT * FROM users) s',
+            'WITH s AS (SELECT * FROM users) SELECT * FROM s'
+        ])('rejects nested star in %s', async query => {
+            await expect(check(query)).rejects.toThrow('only allowed in the outer select list');
+        });
+
+        it.each([
+            'SELECT u FROM users u',
+            'SELECT (u).* FROM users u',
+            'SELECT to_json(u) FROM users u',
+            'SELECT row_to_json(users) FROM users'
+        ])('rejects whole-row reference in %s', async query => {
+            await expect(check(query)).rejects.toThrow('Whole-row reference');
+        });
+
+        it('rejects column alias lists', async () => {
+            await expect(check('SELECT a, b, c FROM users AS u(a, b, c)')).rejects.toThrow('Column aliases');
+        });
+
+        it('rejects NATURAL joins', async () => {
+            await expect(check('SELECT id FROM users NATURAL JOIN orders')).rejects.toThrow('NATURAL joins');
+        });
+
+        it('rejects JOIN ... USING on protected columns', async () => {
+            await expect(check('SELECT id FROM users JOIN orders USING (email)')).rejects.toThrow('JOIN ... USING');
+        });
+    });
+
+    describe('masked columns', () => {
+        it.each([
+            'SELECT email AS contact FROM users',
+            'SELECT lower(email) FROM users',
+            'SELECT id FROM users WHERE email = \'a@example.com\'',
+            'SELECT id FROM users ORDER BY email',
+            'SELECT email FROM users GROUP BY email',
+            'SELECT id FROM orders WHERE user_id IN (SELECT id FROM users WHERE email LIKE \'%@corp.com\')',
+            'SELECT email || \'\' FROM users'
+        ])('rejects %s', async query => {
+            await expect(check(query)).rejects.toThrow('is masked by the access policy');
+        });
+    });
+
+    it('points at the offending column', async () => {
+        await expect(check('SELECT id,\n  password_hash FROM users')).rejects.toThrow('(at line 2, column 3)');
+    });
+
+    it('does nothing without rules', async () => {
+        await expect(new AccessPolicy().checkQuery(connectionManager, 'db', 'SELECT * FROM api_keys')).resolves.toEqual([]);
+    });
+
+    it('applies per-database rules only to that database', async () => {
+        const scoped = new AccessPolicy({ databases: { billing: { denyTables: ['orders'] } } });
+
+        await expect(scoped.checkQuery(connectionManager, 'billing', 'SELECT * FROM orders')).rejects.toThrow('denied');
+        await expect(scoped.checkQuery(connectionManager, 'db', 'SELECT * FROM orders')).resolves.toEqual([]);
+    });
+});
+
+describe('AccessPolicy.maskResult', () => {
+    it('drops hidden columns and masks masked values', async () => {
+        const rules = await check('SELECT * FROM users');
+        const result: QueryResult = {
+            rows: [
+                { id: 1, email: 'a@example.com', password_hash: 'x', api_token: 't' },
+                { id: 2, email: null, password_hash: 'y', api_token: null }
+            ],
+            fields: ['id', 'email', 'password_hash', 'api_token'].map(name => ({ name, type: 'text', isArray: false })),
+            rowCount: 2,
+            truncated: false
+        };
+
+        const masked = policy.maskResult(result, rules);
+
+        expect(masked.fields.map(field => field.name)).toEqual(['id', 'email']);
+        expect(masked.rows).toEqual([{ id: 1, email: MASKED_VALUE }, { id: 2, email: null }]);
+    });
+});
@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ConnectionManager } from '../src/connection-manager.js';
+import { PiiScanner } from '../src/pii-scanner.js';
+import { compareData } from '../src/tools/compare-data.js';
+import { startTestDatabase, TestDatabase } from './helpers/pglite.js';
+
+// Keyed by email, so keys carry personal data the scanner masks
+const SETUP = `
+    CREATE TABLE customers (email text PRIMARY KEY, name text NOT NULL, backup_email text);
+    INSERT INTO customers
+    SELECT 'user' || g || '@example.com', 'User ' || g, 'backup' || g || '@example.com'
+    FROM generate_series(1, 40) AS g;
+`;
+
+describe('compareData with PII masking', () => {
+    let source: TestDatabase;
+    let target: TestDatabase;
+    const connectionManager = new ConnectionManager();
+
+    beforeAll(async () => {
+        source = await startTestDatabase('source', SETUP);
+        target = await startTestDatabase('target', `${SETUP}
+            UPDATE customers SET name = 'Renamed' WHERE email = 'user7@example.com';
+            UPDATE customers SET backup_email = 'other@example.com' WHERE email = 'user12@example.com';
+            DELETE FROM customers WHERE email = 'user30@example.com';
+        `);
+
+        await connectionManager.initialize([source.config, target.config]);
+    }, 60000);
+
+    afterAll(async () => {
+        await connectionManager.close();
+        await Promise.all([source?.stop(), target?.stop()]);
+    });
+
+    it('finds changes by the unmasked keys and values', async () => {
+        connectionManager.setPiiScanner(new PiiScanner('redact'));
+
+        const result = await compareData(connectionManager, { table: 'customers', source: 'source', target: 'target' });
+
+        expect(result.chunks.complete).toBe(true);
+        expect(result.identical).toBe(false);
+        expect(result.rowCount).toEqual({ source: 40, target: 39 });
+        expect(result.samples.map(sample => [sample.status, sample.changedColumns])).toEqual(
+            expect.arrayContaining([
+                ['changed', ['name']],
+                ['changed', ['backup_email']],
+                ['missing in target', undefined]
+            ])
+        );
+        expect(result.samples).toHaveLength(3);
+    });
+
+    it('masks the keys, rows and min/max values it reports', async () => {
+        connectionManager.setPiiScanner(new PiiScanner('redact'));
+
+        const result = await compareData(connectionManager, { table: 'customers', source: 'source', target: 'target' });
+        const renamed = result.samples.find(sample => sample.changedColumns?.includes('name'));
+
+        expect(renamed).toMatchObject({
+            key: { email: '[REDACTED]' },
+            source: { email: '[REDACTED]', name: 'User 7', backup_email: '[REDACTED]' },
+            target: { email: '[REDACTED]', name: 'Renamed', backup_email: '[REDACTED]' }
+        });
+
+        const reported = JSON.stringify(result);
+        expect(reported).not.toContain('@example.com');
+
+        const emailAggregate = result.columnAggregates?.find(aggregate => aggregate.column === 'email');
+        expect(emailAggregate?.source).toMatchObject({ nonNull: 40, min: '[REDACTED]', max: '[REDACTED]' });
+    });
+
+    it('reports raw values without a scanner', async () => {
+        connectionManager.setPiiScanner(null);
+
+        const result = await compareData(connectionManager, { table: 'customers', source: 'source', target: 'target' });
+
+        expect(result.samples.map(sample => sample.key.email)).toEqual(
+            expect.arrayContaining(['user7@example.com', 'user12@example.com', 'user30@example.com'])
+        );
+    });
+});
@@ -0,0 +1,212 @@
+import type { PoolClient } from 'pg';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ConnectionManager } from '../src/connection-manager.js';
+import { CostGuard, loadCostGuard, PlanNode } from '../src/cost-guard.js';
+import { describeTable } from '../src/tools/describe-table.js';
+import { listTables } from '../src/tools/list-tables.js';
+import { runQuery } from '../src/tools/run-query.js';
+import { startTestDatabase, TestDatabase } from './helpers/pglite.js';
+
+const GB = 1024 ** 3;
+
+// Heap sizes of the tables the fake client knows, by schema-qualified name
+const TABLE_SIZES: Record<string, number> = {
+    'public.events': GB,
+    'public.users': GB,
+    'public.countries': 8192
+};
+
+/**
+ * Stands in for a pool client; the guard only uses it to look up table sizes
+ */
+function fakeClient(): PoolClient & { lookups: number } {
+    const client = {
+        lookups: 0,
+        query: async (_sql: string, [schemas, names]: [string[], string[]]) => {
+            client.lookups++;
+
+            return {
+                rows: names
+                    .map((name, index) => ({ schema: schemas[index], name }))
+                    .filter(({ schema, name }) => TABLE_SIZES[`${schema}.${name}`] !== undefined)
+                    .map(({ schema, name }) => ({
+                        schema,
+                        name,
+                        size_bytes: String(TABLE_SIZES[`${schema}.${name}`]),
+                        size: '1024 MB',
+                        indexed_columns: ['id']
+                    }))
+            };
+        }
+    };
+
+    return client as unknown as PoolClient & { lookups: number };
+}
+
+function node(type: string, rows: number, extra: Partial<PlanNode> = {}): PlanNode {
+    return { 'Node Type': type, 'Total Cost': rows / 100, 'Plan Rows': rows, ...extra };
+}
+
+function seqScan(table: string, rows: number, extra: Partial<PlanNode> = {}): PlanNode {
+    return node('Seq Scan', rows, { Schema: 'public', 'Relation Name': table, ...extra });
+}
+
+function limit(rows: number, child: PlanNode): PlanNode {
+    return node('Limit', rows, { Plans: [child] });
+}
+
+function assess(thresholds: ConstructorParameters<typeof CostGuard>[0], plan: PlanNode) {
+    return new CostGuard(thresholds).assess(fakeClient(), plan);
+}
+
+describe('CostGuard', () => {
+    it('rejects plans above the cost limit', async () => {
+        await expect(assess({ maxCost: 1000 }, seqScan('events', 1_000_000))).resolves.toMatch(
+            /^Query rejected by the cost guard: estimated cost 10,000 exceeds the limit of 1,000\./
+        );
+        await expect(assess({ maxCost: 1000 }, seqScan('events', 1000))).resolves.toBeNull();
+    });
+
+    describe('rows per plan step', () => {
+        it('names the step with the most rows', async () => {
+            const plan = node('Hash Join', 100, {
+                Plans: [seqScan('users', 5000, { 'Parent Relationship': 'Outer' }), node('Hash', 2_000_000, {
+                    'Parent Relationship': 'Inner',
+                    Plans: [seqScan('events', 2_000_000)]
+                })]
+            });
+
+            await expect(assess({ maxRows: 10_000 }, plan)).resolves.toContain(
+                'Hash is estimated to process 2,000,000 rows, above the limit of 10,000'
+            );
+        });
+
+        it('counts only the share of the input a LIMIT reads', async () => {
+            await expect(assess({ maxRows: 10_000 }, limit(100, seqScan('events', 1_000_000)))).resolves.toBeNull();
+            await expect(assess({ maxRows: 10_000 }, seqScan('events', 1_000_000))).resolves.toContain(
+                'Seq Scan on "public.events" is estimated to process 1,000,000 rows'
+            );
+        });
+
+        it('passes the LIMIT share through streaming nodes', async () => {
+            const plan = limit(100, node('Subquery Scan', 1_000_000, {
+                Plans: [node('Append', 1_000_000, { Plans: [seqScan('events', 1_000_000)] })]
+            }));
+
+            await expect(assess({ maxRows: 10_000 }, plan)).resolves.toBeNull();
+        });
+
+        it('reads the whole input of blocking nodes under a LIMIT', async () => {
+            const plan = limit(100, node('Sort', 1_000_000, { Plans: [seqScan('events', 1_000_000)] }));
+
+            await expect(assess({ maxRows: 10_000 }, plan)).resolves.toContain('Seq Scan on "public.events"');
+        });
+    });
+
+    describe('sequential scans', () => {
+        it('rejects scans of large tables and suggests indexed columns', async () => {
+            await expect(assess({ maxSeqScanBytes: 100 * 1024 * 1024 }, seqScan('events', 1_000_000))).resolves.toBe(
+                'Query rejected by the cost guard: a sequential scan would read "public.events" (1024 MB), more than the 104,857,600 bytes allowed. ' +
+                'Filter on an indexed column (id), or add a LIMIT so only part of the table is read. Run explain_query to see the plan.'
+            );
+        });
+
+        it('allows small tables and catalog tables', async () => {
+            const catalog = seqScan('events', 1_000_000, { Schema: 'pg_catalog' });
+
+            await expect(assess({ maxSeqScanBytes: 1024 * 1024 }, seqScan('countries', 200))).resolves.toBeNull();
+            await expect(assess({ maxSeqScanBytes: 1024 * 1024 }, catalog)).resolves.toBeNull();
+        });
+
+        it('reports the share a LIMIT reads', async () => {
+            const plan = limit(300_000, seqScan('events', 1_000_000));
+
+            await expect(assess({ maxSeqScanBytes: 100 * 1024 * 1024 }, plan)).resolves.toContain(
+                'would read about 30% of "public.events"'
+            );
+            await expect(assess({ maxSeqScanBytes: 100 * 1024 * 1024 }, limit(100, seqScan('events', 1_000_000)))).resolves.toBeNull();
+        });
+
+        it('streams the outer side of a join and reads the inner side in full', async () => {
+            const join = (outer: string, inner: string) => limit(10, node('Hash Join', 1_000_000, {
+                Plans: [
+                    seqScan(outer, 1_000_000, { 'Parent Relationship': 'Outer' }),
+                    node('Hash', 1_000_000, { 'Parent Relationship': 'Inner', Plans: [seqScan(inner, 1_000_000)] })
+                ]
+            }));
+
+            await expect(assess({ maxSeqScanBytes: 100 * 1024 * 1024 }, join('events', 'countries'))).resolves.toBeNull();
+            await expect(assess({ maxSeqScanBytes: 100 * 1024 * 1024 }, join('events', 'users'))).resolves.toContain(
+                'would read "public.users"'
+            );
+        });
+
+        it('looks up table sizes only when the threshold is set', async () => {
+            const client = fakeClient();
+
+            await new CostGuard({ maxRows: 1_000_000 }).assess(client, seqScan('events', 100));
+            expect(client.lookups).toBe(0);
+
+            await new CostGuard({ maxSeqScanBytes: GB * 2 }).assess(client, seqScan('events', 100));
+            expect(client.lookups).toBe(1);
+        });
+    });
+});
+
+describe('loadCostGuard', () => {
+    afterEach(() => {
+        delete process.env.COST_GUARD_MAX_COST;
+    });
+
+    it('returns null without thresholds', () => {
+        expect(loadCostGuard()).toBeNull();
+    });
+
+    it('creates a guard from the environment', () => {
+        process.env.COST_GUARD_MAX_COST = '1000';
+
+        expect(loadCostGuard()).toBeInstanceOf(CostGuard);
+    });
+});
+
+describe('cost guard on a connection manager', () => {
+    let database: TestDatabase;
+    const connectionManager = new ConnectionManager();
+
+    beforeAll(async () => {
+        database = await startTestDatabase('db', `
+            CREATE TABLE events (id integer PRIMARY KEY, kind text NOT NULL);
+            INSERT INTO events SELECT g, 'kind ' || (g % 10) FROM generate_series(1, 50000) AS g;
+            ANALYZE events;
+        `);
+
+        await connectionManager.initialize([database.config]);
+        connectionManager.setCostGuard(new CostGuard({ maxCost: 200 }));
+    }, 60000);
+
+    afterAll(async () => {
+        await connectionManager.close();
+        await database?.stop();
+    });
+
+    it('does not check the queries tools build', async () => {
+        await expect(describeTable(connectionManager, { table: 'events' })).resolves.toMatchObject({ table: 'events' });
+        await expect(listTables(connectionManager, {})).resolves.toBeDefined();
+    });
+
+    it('checks run_query with its row limit applied', async () => {
+        await expect(runQuery(connectionManager, { query: 'SELECT * FROM events', limit: 10 })).resolves.toMatchObject({ rowCount: 10 });
+        await expect(runQuery(connectionManager, { query: 'SELECT kind, count(*) FROM events GROUP BY kind' }))
+            .rejects.toThrow('Query rejected by the cost guard: estimated cost');
+    });
+
+    it('checks paginated queries by the same rule, with the page size applied', async () => {
+        const page = await runQuery(connectionManager, { query: 'SELECT * FROM events', limit: 10, paginate: true });
+
+        expect(page.cursor).toBeDefined();
+        await connectionManager.closeCursor(page.cursor as string);
+
+        await expect(runQuery(connectionManager, { query: 'SELECT kind, count(*) FROM events GROUP BY kind', paginate: true }))
+            .rejects.toThrow('Query rejected by the cost guard: estimated cost');
+    });
+});
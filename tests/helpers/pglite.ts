@@ -0,0 +1,33 @@
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { DatabaseConfig } from '../../src/types.js';
+
+/**
+ * In-process PostgreSQL reachable over TCP, for tests that go through a ConnectionManager
+ */
+export interface TestDatabase {
+    config: DatabaseConfig;
+    stop(): Promise<void>;
+}
+
+/**
+ * Starts an in-memory database on a free port and runs `setup` in it
+ */
+export async function startTestDatabase(name: string, setup: string): Promise<TestDatabase> {
+    const db = await PGlite.create();
+    await db.exec(setup);
+
+    // Connections share one backend and are served in turn; allow as many as a pool opens
+    const server = new PGLiteSocketServer({ db, host: '127.0.0.1', port: 0, maxConnections: 5 });
+    await server.start();
+
+    const port = Number(server.getServerConn().split(':').pop());
+
+    return {
+        config: { name, host: '127.0.0.1', port, user: 'postgres', password: 'postgres', database: 'postgres', ssl: false },
+        stop: async () => {
+            await server.stop();
+            await db.close();
+        }
+    };
+}
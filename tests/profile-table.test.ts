@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ConnectionManager } from '../src/connection-manager.js';
+import { loadPiiScanner } from '../src/pii-scanner.js';
+import { profileTable } from '../src/tools/profile-table.js';
+import { startTestDatabase, TestDatabase } from './helpers/pglite.js';
+
+const SETUP = `
+    CREATE TABLE customers (id integer PRIMARY KEY, email text NOT NULL, backup_email text, score integer);
+    INSERT INTO customers
+    SELECT g, 'user' || (g % 5) || '@example.com', 'backup' || g || '@example.com', g
+    FROM generate_series(1, 1000) AS g;
+    ANALYZE customers;
+`;
+
+describe('profileTable', () => {
+    let database: TestDatabase;
+    const connectionManager = new ConnectionManager();
+
+    beforeAll(async () => {
+        database = await startTestDatabase('db', SETUP);
+        await connectionManager.initialize([database.config]);
+    }, 60000);
+
+    afterAll(async () => {
+        await connectionManager.close();
+        await database?.stop();
+    });
+
+    it.each(['fast', 'exact'] as const)('masks personal data in %s mode with PII_MASKING=redact', async mode => {
+        process.env.PII_MASKING = 'redact';
+        connectionManager.setPiiScanner(loadPiiScanner());
+
+        try {
+            const profile = await profileTable(connectionManager, {
+                table: 'customers',
+                columns: ['email', 'backup_email', 'score'],
+                mode,
+                mostCommon: 3
+            });
+            const [email, backup, score] = profile.columns;
+
+            expect(JSON.stringify(profile)).not.toContain('@example.com');
+            expect(email.mostCommonValues.map(entry => entry.value)).toEqual(['[REDACTED]', '[REDACTED]', '[REDACTED]']);
+            expect(backup).toMatchObject({ min: '[REDACTED]', max: '[REDACTED]' });
+            expect(score.min).toBe('1');
+            expect(profile.piiMasked?.strategy).toBe('redact');
+            expect(profile.piiMasked?.columns.map(column => [column.column, column.kinds])).toEqual([
+                ['email', ['email']],
+                ['backup_email', ['email']]
+            ]);
+        } finally {
+            delete process.env.PII_MASKING;
+            connectionManager.setPiiScanner(null);
+        }
+    });
+
+    it('reports raw values without a scanner', async () => {
+        const profile = await profileTable(connectionManager, { table: 'customers', columns: ['email'], mode: 'exact' });
+
+        expect(profile.columns[0].min).toBe('user0@example.com');
+        expect(profile.piiMasked).toBeUndefined();
+    });
+
+    it.each(['fast', 'exact'] as const)('bounds mostCommon and buckets to at least 1 in %s mode', async mode => {
+        const profile = await profileTable(connectionManager, {
+            table: 'customers',
+            columns: ['email', 'score'],
+            mode,
+            mostCommon: -5,
+            buckets: 2.5
+        });
+        const [email, score] = profile.columns;
+
+        expect(email.mostCommonValues).toHaveLength(1);
+        expect(score.histogram).toHaveLength(2);
+    });
+});
@@ -0,0 +1,74 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { AuditLog } from '../src/audit-log.js';
+import { ConnectionManager } from '../src/connection-manager.js';
+import { getPrompt } from '../src/prompts.js';
+import { RateLimiter } from '../src/rate-limiter.js';
+import { resourceDatabase } from '../src/resources.js';
+import { startTestDatabase, TestDatabase } from './helpers/pglite.js';
+
+describe('prompts', () => {
+    let database: TestDatabase;
+    let directory: string;
+    let path: string;
+    let auditLog: AuditLog;
+    const connectionManager = new ConnectionManager();
+
+    beforeAll(async () => {
+        database = await startTestDatabase('db', `
+            CREATE TABLE customers (id integer PRIMARY KEY, name text NOT NULL);
+            INSERT INTO customers SELECT g, 'Customer ' || g FROM generate_series(1, 10) AS g;
+        `);
+        directory = mkdtempSync(join(tmpdir(), 'audit-'));
+        path = join(directory, 'audit.jsonl');
+        auditLog = new AuditLog(path);
+
+        await connectionManager.initialize([database.config]);
+        connectionManager.setAuditLog(auditLog);
+    }, 60000);
+
+    afterAll(async () => {
+        await connectionManager.close();
+        await database?.stop();
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        connectionManager.setRateLimiter(null);
+    });
+
+    it('records the statements behind the sample rows of a prompt', async () => {
+        const args = { table: 'customers' };
+        const prompt = await auditLog.record('prompt:explore_table', args, () => getPrompt(connectionManager, 'explore_table', args));
+
+        expect(JSON.stringify(prompt.messages)).toContain('Customer 1');
+
+        const entries = readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+        const entry = entries[entries.length - 1];
+
+        expect(entry).toMatchObject({ tool: 'prompt:explore_table', arguments: args, databases: ['db'] });
+        expect(entry.statements).toEqual(expect.arrayContaining([
+            expect.objectContaining({ sql: expect.stringContaining('"customers"'), rowCount: 5 })
+        ]));
+    });
+
+    it('charges the rows of a prompt to the rate limiter', async () => {
+        const rateLimiter = new RateLimiter({ tools: { get_prompt: { rowsPerWindow: 5 } } });
+        const args = { table: 'customers' };
+
+        connectionManager.setRateLimiter(rateLimiter);
+        await rateLimiter.run('get_prompt', ['db'], () => getPrompt(connectionManager, 'explore_table', args));
+
+        expect(rateLimiter.check('get_prompt', ['db'])?.message).toContain('Row budget exhausted for get_prompt on database "db"');
+        expect(rateLimiter.check('run_query', ['db'])).toBeNull();
+    });
+});
+
+describe('resourceDatabase', () => {
+    it('returns the database a resource URI names', () => {
+        expect(resourceDatabase('postgres://db/public/customers/schema')).toBe('db');
+        expect(resourceDatabase('file:///etc/passwd')).toBeUndefined();
+    });
+});
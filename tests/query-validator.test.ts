@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { validate } from '../src/query-validator.js';
+
+describe('validate', () => {
+    it.each([
+        'SELECT 1',
+        'SELECT * FROM users WHERE id = $1',
+        'WITH recent AS (SELECT * FROM orders) SELECT count(*) FROM recent',
+        'SELECT * FROM (SELECT id FROM users) u JOIN orders o ON o.user_id = u.id',
+        'SELECT id FROM users UNION ALL SELECT id FROM admins',
+        'VALUES (1), (2)',
+        'SELECT lower(email) FROM users -- trailing comment'
+    ])('allows %s', query => {
+        expect(validate(query)).toMatchObject({ valid: true, queryType: 'SELECT' });
+    });
+
+    it('reports the placeholders used', () => {
+        expect(validate('SELECT * FROM t WHERE a = $2 OR b = $1 OR c = $2').placeholders).toEqual([1, 2]);
+    });
+
+    it.each([
+        ['INSERT INTO users (id) VALUES (1)', 'InsertStmt'],
+        ['UPDATE users SET name = $1', 'UpdateStmt'],
+        ['DELETE FROM users', 'DeleteStmt'],
+        ['DROP TABLE users', 'DropStmt'],
+        ['TRUNCATE users', 'TruncateStmt'],
+        ['CREATE TABLE t AS SELECT 1', 'CreateTableAsStmt'],
+        ['SET statement_timeout = 0', 'VariableSetStmt'],
+        ['COPY users TO STDOUT', 'CopyStmt'],
+        ['EXPLAIN ANALYZE DELETE FROM users', 'ExplainStmt']
+    ])('rejects %s', (query, node) => {
+        expect(validate(query)).toMatchObject({ valid: false, node, position: 0 });
+    });
+
+    it('rejects data-modifying CTEs', () => {
+        const query = 'WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone';
+        const result = validate(query);
+
+        expect(result).toMatchObject({ valid: false, node: 'DeleteStmt' });
+        expect(result.error).toContain('DELETE');
+    });
+
+    it('rejects SELECT INTO', () => {
+        expect(validate('SELECT * INTO copy FROM users')).toMatchObject({ valid: false, node: 'IntoClause' });
+    });
+
+    it.each([
+        'SELECT pg_sleep(10)',
+        'SELECT * FROM users WHERE id = (SELECT nextval(\'users_id_seq\'))',
+        'SELECT PG_READ_FILE(\'/etc/passwd\')',
+        'SELECT pg_catalog.set_config(\'statement_timeout\', \'0\', false)'
+    ])('rejects blocked function calls in %s', query => {
+        expect(validate(query)).toMatchObject({ valid: false, node: 'FuncCall' });
+    });
+
+    it('points at the blocked function call', () => {
+        const query = 'SELECT id,\n  pg_sleep(1)\nFROM users';
+        const result = validate(query);
+
+        expect(result.position).toBe(query.indexOf('pg_sleep'));
+        expect(result.error).toContain('(at line 2, column 3)');
+    });
+
+    it('rejects multiple statements at the second one', () => {
+        const query = 'SELECT 1; DELETE FROM users';
+        const result = validate(query);
+
+        expect(result.valid).toBe(false);
+        expect(result.position).toBe(query.indexOf('DELETE'));
+    });
+
+    describe('row-locking clauses', () => {
+        it('points at the locked table', () => {
+            const query = 'SELECT * FROM users u FOR UPDATE OF u';
+
+            expect(validate(query)).toMatchObject({
+                valid: false,
+                node: 'LockingClause',
+                position: query.lastIndexOf('u')
+            });
+        });
+
+        it('points at the statement when no table is named', () => {
+            expect(validate('SELECT * FROM users FOR SHARE')).toMatchObject({
+                valid: false,
+                node: 'LockingClause',
+                position: 0
+            });
+        });
+
+        it('is rejected inside subqueries', () => {
+            const result = validate('SELECT * FROM (SELECT * FROM users FOR UPDATE) locked');
+
+            expect(result).toMatchObject({ valid: false, node: 'LockingClause' });
+            expect(result.position).toBeDefined();
+        });
+    });
+
+    it('reports syntax errors with their position', () => {
+        const result = validate('SELECT * FORM users');
+
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('Syntax error');
+        expect(result.position).toBeGreaterThan(0);
+    });
+
+    it.each(['', '   ', '-- only a comment'])('rejects empty query %j', query => {
+        expect(validate(query).valid).toBe(false);
+    });
+});
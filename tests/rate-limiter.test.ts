@@ -0,0 +1,191 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadRateLimiter, RateLimiter } from '../src/rate-limiter.js';
+
+/**
+ * Runs a call that charges `rows` rows and `durationMs` to `database`
+ */
+function call(limiter: RateLimiter, tool: string, database: string, rows = 0, durationMs = 0): Promise<void> {
+    return limiter.run(tool, [database], async () => limiter.recordUsage(database, rows, durationMs));
+}
+
+describe('RateLimiter', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-01-15T09:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('allows everything without limits', async () => {
+        const limiter = new RateLimiter();
+
+        for (let index = 0; index < 100; index++) {
+            await call(limiter, 'run_query', 'db', 1000, 1000);
+        }
+
+        expect(limiter.check('run_query', ['db'])).toBeNull();
+    });
+
+    describe('queries per minute', () => {
+        it('refuses calls over the limit until the oldest leaves the minute', async () => {
+            const limiter = new RateLimiter({ queriesPerMinute: 2 });
+
+            await call(limiter, 'run_query', 'db');
+            vi.advanceTimersByTime(20000);
+            await call(limiter, 'list_tables', 'db');
+
+            expect(limiter.check('run_query', ['db'])).toEqual({
+                message: 'Rate limit exceeded for database "db": 2 queries per minute. Retry after 40 seconds.',
+                retryAfterSeconds: 40
+            });
+
+            vi.advanceTimersByTime(40001);
+            expect(limiter.check('run_query', ['db'])).toBeNull();
+        });
+
+        it('counts each database separately', async () => {
+            const limiter = new RateLimiter({ queriesPerMinute: 1 });
+
+            await call(limiter, 'run_query', 'db');
+
+            expect(limiter.check('run_query', ['db'])).not.toBeNull();
+            expect(limiter.check('run_query', ['other'])).toBeNull();
+        });
+
+        it('checks every database of a multi-database call', async () => {
+            const limiter = new RateLimiter({ queriesPerMinute: 1 });
+
+            await call(limiter, 'run_query', 'target');
+
+            expect(limiter.check('compare_table_data', ['source', 'target'])?.message).toContain('database "target"');
+        });
+    });
+
+    describe('per-tool limits', () => {
+        it('limits a tool without affecting the others', async () => {
+            const limiter = new RateLimiter({ tools: { profile_table: { queriesPerMinute: 1 } } });
+
+            await call(limiter, 'profile_table', 'db');
+
+            expect(limiter.check('profile_table', ['db'])?.message).toContain('profile_table on database "db"');
+            expect(limiter.check('run_query', ['db'])).toBeNull();
+        });
+
+        it('lets database overrides replace file-wide limits', async () => {
+            const limiter = new RateLimiter({
+                queriesPerMinute: 1,
+                tools: { run_query: { queriesPerMinute: 1 } },
+                databases: { dev: { queriesPerMinute: 10, tools: { run_query: { queriesPerMinute: 10 } } } }
+            });
+
+            await call(limiter, 'run_query', 'dev');
+            await call(limiter, 'run_query', 'prod');
+
+            expect(limiter.check('run_query', ['dev'])).toBeNull();
+            expect(limiter.check('run_query', ['prod'])).not.toBeNull();
+        });
+
+        it('never limits close_cursor', async () => {
+            const limiter = new RateLimiter({ queriesPerMinute: 1 });
+
+            await call(limiter, 'run_query', 'db');
+
+            expect(limiter.check('close_cursor', ['db'])).toBeNull();
+        });
+    });
+
+    it('refuses calls while the concurrent limit is reached', async () => {
+        const limiter = new RateLimiter({ concurrentQueries: 1 });
+        let finish: () => void = () => undefined;
+        const running = limiter.run('run_query', ['db'], () => new Promise<void>(resolve => { finish = resolve; }));
+
+        expect(limiter.check('run_query', ['db'])).toMatchObject({ retryAfterSeconds: 1 });
+
+        finish();
+        await running;
+
+        expect(limiter.check('run_query', ['db'])).toBeNull();
+    });
+
+    describe('row and execution time budgets', () => {
+        it('refuses calls once the rows in the window reach the budget', async () => {
+            const limiter = new RateLimiter({ rowsPerWindow: 100, windowSeconds: 60 });
+
+            await call(limiter, 'run_query', 'db', 60);
+            expect(limiter.check('run_query', ['db'])).toBeNull();
+
+            vi.advanceTimersByTime(10000);
+            await call(limiter, 'run_query', 'db', 50);
+
+            // Dropping the first 60 rows brings usage back under the budget
+            expect(limiter.check('run_query', ['db'])).toEqual({
+                message: 'Row budget exhausted for database "db": 100 rows per minute. Retry after 50 seconds.',
+                retryAfterSeconds: 50
+            });
+
+            vi.advanceTimersByTime(50001);
+            expect(limiter.check('run_query', ['db'])).toBeNull();
+        });
+
+        it('charges execution time', async () => {
+            const limiter = new RateLimiter({ executionMsPerWindow: 1000 });
+
+            await call(limiter, 'run_query', 'db', 0, 1200);
+
+            expect(limiter.check('run_query', ['db'])?.message)
+                .toBe('Execution time budget exhausted for database "db": 1000 ms per hour. Retry after 3600 seconds.');
+        });
+
+        it('does not charge statements sent outside a call', () => {
+            const limiter = new RateLimiter({ rowsPerWindow: 10 });
+
+            limiter.recordUsage('db', 1000, 0);
+
+            expect(limiter.check('run_query', ['db'])).toBeNull();
+        });
+    });
+});
+
+describe('loadRateLimiter', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'rate-limits-'));
+    });
+
+    afterEach(() => {
+        delete process.env.RATE_LIMITS_FILE;
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    function load(content: unknown) {
+        const path = join(directory, 'limits.json');
+        writeFileSync(path, JSON.stringify(content));
+        process.env.RATE_LIMITS_FILE = path;
+        return loadRateLimiter(['db'], ['run_query', 'profile_table']);
+    }
+
+    it('returns null without RATE_LIMITS_FILE', () => {
+        expect(loadRateLimiter(['db'], ['run_query'])).toBeNull();
+    });
+
+    it('loads valid limits', () => {
+        expect(load({ queriesPerMinute: 5, tools: { run_query: { rowsPerWindow: 10 } }, databases: { db: { concurrentQueries: 1 } } }))
+            .toBeInstanceOf(RateLimiter);
+    });
+
+    it.each([
+        [{ queriesPerMinute: 0 }, '"queriesPerMinute" in the file must be a positive integer'],
+        [{ queriesPerHour: 5 }, 'unknown key "queriesPerHour"'],
+        [{ tools: { drop_table: { queriesPerMinute: 1 } } }, 'unknown tool "drop_table"'],
+        [{ databases: { prod: { queriesPerMinute: 1 } } }, 'unknown database "prod"'],
+        [{ windowSeconds: 1.5 }, '"windowSeconds" must be a positive integer']
+    ])('rejects %j', (content, message) => {
+        expect(() => load(content)).toThrow(message);
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { formatResult, OUTPUT_FORMATS } from '../src/result-formatter.js';
+import { LIMITS, QueryResult } from '../src/types.js';
+
+const longText = 'x'.repeat(LIMITS.TEXT_TRUNCATE + 50);
+
+const result: QueryResult = {
+    rows: [{ id: 1, body: longText, meta: { $type: 'numeric', value: '1.50' } }],
+    rowCount: 1,
+    fields: [
+        { name: 'id', type: 'int4', isArray: false },
+        { name: 'body', type: 'text', isArray: false },
+        { name: 'meta', type: 'numeric', isArray: false }
+    ],
+    truncated: true,
+    cursor: 'abc'
+};
+
+describe('formatResult', () => {
+    it('cuts long cell text in JSON output', () => {
+        const [body] = formatResult(result, 'json');
+        const parsed = JSON.parse(body);
+
+        expect(parsed.rows[0].body).toBe(`${'x'.repeat(LIMITS.TEXT_TRUNCATE)}... (truncated)`);
+        expect(parsed.rows[0].id).toBe(1);
+        expect(parsed.rows[0].meta).toEqual({ $type: 'numeric', value: '1.50' });
+        expect(parsed.cursor).toBe('abc');
+    });
+
+    it.each(OUTPUT_FORMATS)('cuts oversized jsonb cells in %s output', format => {
+        const document = { items: Array.from({ length: 100 }, (_, index) => ({ index, label: `item ${index}` })) };
+        const [body] = formatResult({
+            rows: [{ doc: document, small: { a: 1 } }],
+            rowCount: 1,
+            fields: [{ name: 'doc', type: 'jsonb', isArray: false }, { name: 'small', type: 'jsonb', isArray: false }],
+            truncated: false
+        }, format);
+
+        expect(body).toContain('item 0');
+        expect(body).toContain('... (truncated)');
+        expect(body).not.toContain('item 99');
+        expect(body.length).toBeLessThan(1000);
+    });
+
+    it('keeps short jsonb cells as JSON in JSON output', () => {
+        const [body] = formatResult({
+            rows: [{ small: { a: [1, 2] } }],
+            rowCount: 1,
+            fields: [{ name: 'small', type: 'jsonb', isArray: false }],
+            truncated: false
+        }, 'columnar');
+
+        expect(JSON.parse(body).rows[0][0]).toEqual({ a: [1, 2] });
+    });
+
+    it.each(OUTPUT_FORMATS)('adds the truncation notice in %s output', format => {
+        const blocks = formatResult(result, format);
+
+        expect(blocks).toHaveLength(2);
+        expect(blocks[0]).not.toContain(longText);
+        expect(blocks[1]).toBe('Results truncated: showing 1 rows. Call fetch_page with cursor "abc" for the next page.');
+    });
+
+    it('adds no notice to complete results', () => {
+        expect(formatResult({ ...result, truncated: false, cursor: undefined }, 'json')).toHaveLength(1);
+    });
+
+    it('keeps NULL and empty strings apart in CSV', () => {
+        const [csv] = formatResult({
+            rows: [{ a: null, b: '' }],
+            rowCount: 1,
+            fields: [{ name: 'a', type: 'text', isArray: false }, { name: 'b', type: 'text', isArray: false }],
+            truncated: false
+        }, 'csv');
+
+        expect(csv).toBe('a,b\r\n,""');
+    });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeParams } from '../src/tools/run-query.js';
+
+describe('normalizeParams', () => {
+    it('passes plain values through', () => {
+        expect(normalizeParams(['a', 42, 1.5, true, null])).toEqual(['a', 42, 1.5, true, null]);
+    });
+
+    it('converts typed params', () => {
+        expect(normalizeParams([
+            { type: 'integer', value: '9223372036854775807' },
+            { type: 'json', value: { a: 1 } },
+            { type: 'null' }
+        ])).toEqual(['9223372036854775807', '{"a":1}', null]);
+    });
+
+    it('rejects plain integers that lost precision', () => {
+        expect(() => normalizeParams([1, 9007199254740993])).toThrow(
+            'Invalid params[1] ($2): expected an integer within ±9007199254740991; send larger integers as a string'
+        );
+        expect(normalizeParams([9007199254740991, -9007199254740991])).toEqual([9007199254740991, -9007199254740991]);
+    });
+
+    it.each<[unknown, string]>([
+        [[Infinity], 'expected a finite number'],
+        [[{ type: 'integer', value: 1.5 }], 'expected an integer or integer string'],
+        [[{ type: 'date', value: '2024-02-30x' }], 'expected an ISO date'],
+        [[[1, 2]], 'expected a string, number, boolean, null'],
+        ['1', 'expected an array of values']
+    ])('rejects %j', (params, message) => {
+        expect(() => normalizeParams(params)).toThrow(message);
+    });
+});
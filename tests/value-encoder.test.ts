@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { encodeResult } from '../src/value-encoder.js';
+import { FieldInfo, QueryResult } from '../src/types.js';
+
+function encodeOne(value: unknown, field: Omit<FieldInfo, 'name'>): unknown {
+    const result: QueryResult = {
+        rows: [{ value }],
+        rowCount: 1,
+        fields: [{ name: 'value', ...field }],
+        truncated: false
+    };
+
+    return encodeResult(result).rows[0].value;
+}
+
+describe('encodeResult', () => {
+    const moodArray = { type: 'mood[]', isArray: true, elementType: 'mood', enumLabels: ['sad', 'ok', 'happy'] };
+
+    it('parses arrays of types pg has no parser for', () => {
+        expect(encodeOne('{sad}', moodArray)).toEqual(['sad']);
+        expect(encodeOne('{sad,NULL,"very happy"}', moodArray)).toEqual(['sad', null, 'very happy']);
+        expect(encodeOne('{{sad,ok},{ok,happy}}', moodArray)).toEqual([['sad', 'ok'], ['ok', 'happy']]);
+        expect(encodeOne('{}', moodArray)).toEqual([]);
+    });
+
+    it('encodes the elements of unparsed arrays by their element type', () => {
+        expect(encodeOne('{1.50,NULL}', { type: 'numeric[]', isArray: true, elementType: 'numeric' }))
+            .toEqual([{ $type: 'numeric', value: '1.50' }, null]);
+    });
+
+    it('keeps arrays already parsed by pg', () => {
+        expect(encodeOne([1, 2], { type: 'int4[]', isArray: true, elementType: 'int4' })).toEqual([1, 2]);
+    });
+
+    it('leaves NULL arrays and non-array text alone', () => {
+        expect(encodeOne(null, moodArray)).toBeNull();
+        expect(encodeOne('{sad}', { type: 'text', isArray: false })).toBe('{sad}');
+    });
+
+    it('encodes scalars by type', () => {
+        expect(encodeOne('9007199254740993', { type: 'int8', isArray: false }))
+            .toEqual({ $type: 'int8', value: '9007199254740993' });
+        expect(encodeOne('2024-01-31 10:00:00+00', { type: 'timestamptz', isArray: false }))
+            .toBe('2024-01-31T10:00:00+00:00');
+        expect(encodeOne('1 year 2 mons 3 days 04:05:06.5', { type: 'interval', isArray: false }))
+            .toBe('P1Y2M3DT4H5M6.5S');
+        expect(encodeOne('[1,5)', { type: 'int4range', isArray: false }))
+            .toEqual({ $type: 'int4range', empty: false, lower: 1, upper: 5, lowerInclusive: true, upperInclusive: false });
+    });
+});